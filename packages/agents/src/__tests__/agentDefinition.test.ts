@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from "vitest";
+import { createAgent } from "@bolt-ai/agents";
+import { createAppRouter, estimatePromptTokens, InMemoryStore, type ModelProvider } from "@bolt-ai/core";
+
+describe("createAgent provider calls", () => {
+  it("counts the conversation once against token budgets", async () => {
+    const call = vi.fn(async () => ({ output: "ok" }));
+    const provider = { id: "test", supports: ["text"], call } as unknown as ModelProvider;
+    const router = createAppRouter({
+      providers: [provider],
+      memory: new InMemoryStore(),
+      budget: { maxTokens: 150 },
+    });
+    router.registerAgents({
+      support: createAgent({ id: "support", prompt: { system: "Be brief.", user: "{{input}}" } }),
+    });
+
+    // ~100 tokens of input: over budget only if `prompt` and `messages` are both counted.
+    await expect(router.route({ id: "r1", agentId: "support", input: "x".repeat(400) })).resolves.toBe("ok");
+
+    const args = (call.mock.calls[0] as unknown[])[0] as Parameters<typeof estimatePromptTokens>[0];
+    expect(args.prompt).toBeTruthy();
+    expect(args.messages?.length).toBeGreaterThan(0);
+    expect(estimatePromptTokens(args)).toBe(estimatePromptTokens({ kind: "text", messages: args.messages }));
+  });
+});
@@ -75,6 +75,39 @@ Question: {{input}}
     expect(def.capabilities).toEqual(["text"]);
   });
 
+  it("parses input and output guard rules and carries them onto the agent", () => {
+    const md = `---
+id: public-support
+guards:
+  input:
+    - keywords: ignore previous instructions, system prompt
+      message: I can only help with orders.
+    - moderation: [violence, self-harm]
+  output:
+    - pattern: "\\\\d{4}(-\\\\d{4}){3}"
+      action: rewrite
+      replaceWith: "[card]"
+    - checker: tone
+      action: flag
+---
+Agent body`;
+    const def = parseAgentMarkdown(md);
+    expect(def.guards).toEqual({
+      input: [
+        { keywords: ["ignore previous instructions", "system prompt"], message: "I can only help with orders." },
+        { moderation: ["violence", "self-harm"] },
+      ],
+      output: [
+        { action: "rewrite", patterns: ["\\d{4}(-\\d{4}){3}"], replaceWith: "[card]" },
+        { action: "flag", checker: "tone" },
+      ],
+    });
+    expect(createAgent(def).guards).toBe(def.guards);
+    expect(() => parseAgentMarkdown(`---\nid: x\nguards:\n  input:\n    - keywords: [a]\n      action: drop\n---\n`)).toThrow(
+      "Unknown guard action 'drop'"
+    );
+  });
+
   it("preserves declared skills and resolves Markdown skill files from skillsDir", async () => {
     const skillsDir = await makeTempDir("bolt-skills-");
     await writeFile(
@@ -150,6 +183,67 @@ describe("createAgent", () => {
     expect(messages.length).toBe(2);
   });
 
+  it("sends system and history turns as conversation messages", async () => {
+    const { memory } = createMemory();
+    memory.history = async () => [
+      { id: "m1", role: "user", text: "Hi" },
+      { id: "m2", role: "assistant", text: "Hello" },
+    ];
+    const call = vi.fn(async (_req: { prompt: string; messages?: unknown }) => "answer");
+    const ctx: AgentCtx = {
+      input: "And now?",
+      memory,
+      tools: { get: () => undefined, list: () => [], register: () => {} },
+      call,
+    };
+
+    const agent = createAgent({
+      id: "chat",
+      memory: { history: 2 },
+      prompt: { system: "Be concise.", user: "{{input}}" },
+    });
+
+    await agent.run(ctx);
+    const args = call.mock.calls[0][0];
+    expect(args.prompt).toBe("Be concise.\n\nHistory:\nUSER: Hi\nASSISTANT: Hello\n\nAnd now?");
+    expect(args.messages).toEqual([
+      { role: "system", content: "Be concise." },
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello" },
+      { role: "user", content: "And now?" },
+    ]);
+  });
+
+  it("sends declared image fields as image parts on the user turn", async () => {
+    const { memory, messages } = createMemory();
+    const call = vi.fn(async (_req: { prompt: string; messages?: any[] }) => "a receipt");
+    const agent = createAgent(
+      parseAgentMarkdown(`---
+id: receipts
+input:
+  images: [photo]
+---
+Describe the image.`)
+    );
+    const ctx: AgentCtx = {
+      input: { question: "What is it?", photo: "https://img.test/r.png", extra: [{ type: "image", data: "aGk=", mimeType: "image/png" }] },
+      memory,
+      tools: { get: () => undefined, list: () => [], register: () => {} },
+      call,
+    };
+
+    await agent.run(ctx);
+
+    expect(agent.capabilities).toEqual(["text", "vision"]);
+    const args = call.mock.calls[0][0];
+    expect(args.prompt).toContain('{"question":"What is it?","photo":"[image 1]","extra":["[image 2]"]}');
+    expect(args.messages?.at(-1)?.images).toEqual([
+      { type: "image", url: "https://img.test/r.png" },
+      { type: "image", data: "aGk=", mimeType: "image/png" },
+    ]);
+    expect(messages[0].json).toEqual({ question: "What is it?", photo: "[image 1]", extra: ["[image 2]"] });
+  });
+
   it("parses json output when requested", async () => {
     const { memory } = createMemory();
     const ctx: AgentCtx = {
@@ -178,6 +272,17 @@ describe("createAgent", () => {
     expect(agent.tools).toEqual(["web.search", "http.fetch"]);
   });
 
+  it("exposes the declared model pin for router provider selection", () => {
+    const def = parseAgentMarkdown(`---
+id: fast-agent
+model: groq:llama-3.3-70b-versatile
+---
+Be fast.
+`);
+
+    expect(createAgent(def).model).toBe("groq:llama-3.3-70b-versatile");
+  });
+
   it("injects resolved Markdown skills into the prompt", async () => {
     const skillsDir = await makeTempDir("bolt-skills-");
     await writeFile(path.join(skillsDir, "research.md"), "Verify claims against primary sources.");
@@ -1,5 +1,5 @@
-import { discoverBoltDocs, type BoltDocOptions } from "@bolt-ai/core";
-import type { Agent, AgentCtx, Capability, Message } from "@bolt-ai/core";
+import { discoverBoltDocs, isImagePart, toImagePart, validateSchema, type BoltDocOptions } from "@bolt-ai/core";
+import type { Agent, AgentCtx, AgentGuardConfig, Capability, ImagePart, Message, ProviderMessage } from "@bolt-ai/core";
 
 export type ReasoningMode = "direct" | "deliberate" | "reflect";
 
@@ -42,9 +42,16 @@ export interface AgentDefinition {
   skills?: string[];
   resolvedSkills?: AgentSkill[];
   inputSchema?: any;
+  /**
+   * Top-level input fields holding images: a URL, data URL, file path, `ImagePart`, or an array
+   * of them. Declaring any adds the 'vision' capability.
+   */
+  imageInputs?: string[];
   outputSchema?: any;
   outputKind?: "text" | "json";
   tools?: string[];
+  /** Input/output guard rules the router enforces for this agent */
+  guards?: AgentGuardConfig;
   memory?: AgentMemoryConfig;
   reasoning?: ReasoningConfig;
   boltDocs?: boolean | BoltDocOptions;
@@ -68,6 +75,41 @@ function normalizeInput(input: unknown): string {
   }
 }
 
+/**
+ * Pull images out of agent input so they travel as image parts instead of JSON text: `ImagePart`
+ * values anywhere at the top level, plus the declared `imageInputs` fields. Object fields are
+ * replaced by `[image N]` labels so prompts can still refer to them.
+ */
+function splitImages(input: unknown, fields: string[] = []): { input: unknown; images: ImagePart[] } {
+  const images: ImagePart[] = [];
+  if (isImagePart(input)) return { input: "", images: [input] };
+  if (Array.isArray(input)) {
+    const rest: unknown[] = [];
+    for (const item of input) (isImagePart(item) ? images : rest).push(item);
+    return { input: rest, images };
+  }
+  if (!input || typeof input !== "object") return { input, images };
+
+  const out: Record<string, unknown> = { ...(input as Record<string, unknown>) };
+  const label = (value: unknown, declared: boolean) => {
+    const part = declared ? toImagePart(value) : isImagePart(value) ? value : undefined;
+    if (!part) return undefined;
+    images.push(part);
+    return `[image ${images.length}]`;
+  };
+  for (const [key, value] of Object.entries(out)) {
+    const declared = fields.includes(key);
+    if (Array.isArray(value)) {
+      const labels = value.map((item) => label(item, declared));
+      if (labels.some(Boolean)) out[key] = value.map((item, i) => labels[i] ?? item);
+      continue;
+    }
+    const labelled = label(value, declared);
+    if (labelled) out[key] = labelled;
+  }
+  return images.length ? { input: out, images } : { input, images };
+}
+
 function readPath(root: any, path: string) {
   const parts = String(path)
     .split(".")
@@ -104,6 +146,32 @@ function formatHistory(history: Message[]): string {
   return lines.join("\n");
 }
 
+function historyMessages(history: Message[]): ProviderMessage[] {
+  const messages: ProviderMessage[] = [];
+  for (const m of history) {
+    const raw = m.text ?? (m.json != null ? JSON.stringify(m.json) : "");
+    if (!raw) continue;
+    if (m.role === "user" || m.role === "assistant") messages.push({ role: m.role, content: raw });
+  }
+  return messages;
+}
+
+/** Structured form of the flattened prompt: system turn, prior history turns, then the user turn (with any images). */
+function buildConversation(
+  system: string[],
+  history: ProviderMessage[],
+  user: string[],
+  images: ImagePart[] = []
+): ProviderMessage[] {
+  const messages: ProviderMessage[] = [];
+  const systemText = system.filter(Boolean).join("\n\n");
+  if (systemText) messages.push({ role: "system", content: systemText });
+  messages.push(...history);
+  const content = user.filter(Boolean).join("\n\n");
+  messages.push(images.length ? { role: "user", content, images } : { role: "user", content });
+  return messages;
+}
+
 function extractJson(raw: string): string | null {
   if (!raw) return null;
   const fence = raw.match(/```json\s*([\s\S]*?)```/i);
@@ -114,99 +182,6 @@ function extractJson(raw: string): string | null {
   return null;
 }
 
-type JsonSchema = boolean | {
-  type?: string | string[];
-  required?: string[];
-  properties?: Record<string, JsonSchema>;
-  items?: JsonSchema;
-};
-
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return Boolean(value && typeof value === "object" && !Array.isArray(value));
-}
-
-function hasJsonSchemaKeywords(schema: Record<string, unknown>): boolean {
-  return "type" in schema || "required" in schema || "properties" in schema || "items" in schema;
-}
-
-function validateJsonSchemaType(type: string, schema: JsonSchema, value: unknown): boolean {
-  if (type === "string") return typeof value === "string";
-  if (type === "number") return typeof value === "number" && Number.isFinite(value);
-  if (type === "integer") return typeof value === "number" && Number.isInteger(value);
-  if (type === "boolean") return typeof value === "boolean";
-  if (type === "null") return value === null;
-
-  if (type === "array") {
-    if (!Array.isArray(value)) return false;
-    const items = isPlainObject(schema) ? schema.items : undefined;
-    if (!items) return true;
-    return value.every((item) => validateJsonSchema(items, item));
-  }
-
-  if (type === "object") {
-    return validateJsonSchemaObject(schema, value);
-  }
-
-  return true;
-}
-
-function validateJsonSchemaObject(schema: JsonSchema, value: unknown): boolean {
-  if (!isPlainObject(schema) || !isPlainObject(value)) return false;
-
-  if (Array.isArray(schema.required)) {
-    for (const key of schema.required) {
-      if (!Object.prototype.hasOwnProperty.call(value, key)) return false;
-    }
-  }
-
-  if (isPlainObject(schema.properties)) {
-    for (const [key, propertySchema] of Object.entries(schema.properties)) {
-      if (Object.prototype.hasOwnProperty.call(value, key) && !validateJsonSchema(propertySchema, value[key])) {
-        return false;
-      }
-    }
-  }
-
-  return true;
-}
-
-function validateJsonSchema(schema: JsonSchema, value: unknown): boolean {
-  if (schema === true) return true;
-  if (schema === false) return false;
-  if (!isPlainObject(schema)) return true;
-
-  if (Array.isArray(schema.type)) {
-    return schema.type.some((type) => validateJsonSchemaType(type, schema, value));
-  }
-
-  if (typeof schema.type === "string") {
-    return validateJsonSchemaType(schema.type, schema, value);
-  }
-
-  if (schema.required || schema.properties) {
-    return validateJsonSchemaObject(schema, value);
-  }
-
-  return true;
-}
-
-function validateSchema(schema: any, value: any): boolean {
-  if (!schema) return true;
-  if (typeof schema.safeParse === "function") return Boolean(schema.safeParse(value)?.success);
-  if (typeof schema.parse === "function") {
-    try {
-      schema.parse(value);
-      return true;
-    } catch {
-      return false;
-    }
-  }
-  if (isPlainObject(schema) && hasJsonSchemaKeywords(schema)) {
-    return validateJsonSchema(schema, value);
-  }
-  return true;
-}
-
 function makeId(): string {
   return `m_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
@@ -239,11 +214,15 @@ function formatSkills(skills?: AgentSkill[]): string {
 
 export function createAgent(def: AgentDefinition): Agent {
   const outputKind = def.outputKind ?? (def.outputSchema ? "json" : "text");
-  const capabilities = def.capabilities?.length
+  const baseCapabilities = def.capabilities?.length
     ? def.capabilities
     : outputKind === "json"
       ? (["json"] as Capability[])
       : (["text"] as Capability[]);
+  const capabilities: Capability[] =
+    def.imageInputs?.length && !baseCapabilities.includes("vision")
+      ? [...baseCapabilities, "vision"]
+      : baseCapabilities;
 
   const systemPrompt = [def.prompt?.system, normalizeInstructions(def.instructions)]
     .map((s) => (s ?? "").trim())
@@ -271,8 +250,10 @@ export function createAgent(def: AgentDefinition): Agent {
     id: def.id,
     description: def.description ?? def.name,
     capabilities,
+    model: def.model,
     tools: def.tools,
     outputSchema: def.outputSchema,
+    guards: def.guards,
     async run(ctx: AgentCtx): Promise<any> {
       if (def.inputSchema && !validateSchema(def.inputSchema, ctx.input)) {
         throw new Error(`Input schema validation failed for agent '${def.id}'`);
@@ -282,26 +263,33 @@ export function createAgent(def: AgentDefinition): Agent {
       const historyLimit = Math.max(0, def.memory?.history ?? 0);
       const writeMemory = def.memory?.write !== false;
 
+      const { input, images } = splitImages(ctx.input, def.imageInputs);
       const history = historyLimit > 0 ? await ctx.memory.history(memoryScope, historyLimit) : [];
       const historyText = history.length ? formatHistory(history) : "";
       const toolsText = def.tools?.length ? def.tools.join(", ") : "";
 
       const userTemplate = def.prompt?.user ?? defaultUserTemplate;
       const userText = renderTemplate(userTemplate, {
-        input: normalizeInput(ctx.input),
+        input: normalizeInput(input),
         history: historyText,
         tools: toolsText,
         agent: { id: def.id, name: def.name, description: def.description },
       }).trim();
 
-      const baseParts: string[] = [];
+      const systemParts: string[] = [];
       const boltDocs = await loadBoltDocs();
-      if (boltDocs?.trim()) baseParts.push(boltDocs.trim());
+      if (boltDocs?.trim()) systemParts.push(boltDocs.trim());
       const skillsText = formatSkills(def.resolvedSkills);
-      if (skillsText) baseParts.push(skillsText);
-      if (systemPrompt) baseParts.push(systemPrompt);
-      if (def.prompt?.prefix?.trim()) baseParts.push(def.prompt.prefix.trim());
-      if (historyText && shouldIncludeHistory(userTemplate)) {
+      if (skillsText) systemParts.push(skillsText);
+      if (systemPrompt) systemParts.push(systemPrompt);
+      const prefix = def.prompt?.prefix?.trim() ?? "";
+      const includeHistory = Boolean(historyText) && shouldIncludeHistory(userTemplate);
+      const historyTurns = includeHistory ? historyMessages(history) : [];
+
+      // `prompt` stays the flattened single-string form; `messages` carries the same content as turns.
+      const baseParts: string[] = [...systemParts];
+      if (prefix) baseParts.push(prefix);
+      if (includeHistory) {
         baseParts.push(`History:\n${historyText}`);
       }
 
@@ -313,25 +301,32 @@ export function createAgent(def: AgentDefinition): Agent {
           const stageInstruction = i === 0
             ? "Write a concise plan (bullet points) for answering the task. Do not answer yet."
             : "Refine the plan. Keep it concise and focused on actionable steps.";
-          const thinkParts = [...baseParts];
-          thinkParts.push(`Task:\n${userText}`);
-          if (currentNotes) thinkParts.push(`Current notes:\n${currentNotes}`);
-          thinkParts.push(stageInstruction);
-          const note = await ctx.call({ kind: "text", prompt: thinkParts.join("\n\n") });
+          const taskParts = [`Task:\n${userText}`];
+          if (currentNotes) taskParts.push(`Current notes:\n${currentNotes}`);
+          taskParts.push(stageInstruction);
+          const thinkParts = [...baseParts, ...taskParts];
+          ctx.signal?.throwIfAborted();
+          const note = await ctx.call({
+            kind: "text",
+            prompt: thinkParts.join("\n\n"),
+            messages: buildConversation(systemParts, historyTurns, [prefix, ...taskParts], images),
+          });
           currentNotes = [currentNotes, String(note ?? "")].filter(Boolean).join("\n\n").trim();
         }
         notes = currentNotes;
       }
 
-      const finalParts = [...baseParts];
-      if (notes) finalParts.push(`Notes (internal):\n${notes}`);
-      finalParts.push(userText);
-      if (def.prompt?.suffix?.trim()) finalParts.push(def.prompt.suffix.trim());
-      const finalPrompt = finalParts.filter(Boolean).join("\n\n");
+      const userParts: string[] = [];
+      if (notes) userParts.push(`Notes (internal):\n${notes}`);
+      userParts.push(userText);
+      if (def.prompt?.suffix?.trim()) userParts.push(def.prompt.suffix.trim());
+      const finalPrompt = [...baseParts, ...userParts].filter(Boolean).join("\n\n");
 
+      ctx.signal?.throwIfAborted();
       const rawOutput = await ctx.call({
         kind: outputKind,
         prompt: finalPrompt,
+        messages: buildConversation(systemParts, historyTurns, [prefix, ...userParts], images),
         schema: def.outputSchema,
       });
 
@@ -349,14 +344,17 @@ export function createAgent(def: AgentDefinition): Agent {
         throw new Error(`Output schema validation failed for agent '${def.id}'`);
       }
 
+      // A cancelled run must not leave a half-finished exchange in memory.
+      ctx.signal?.throwIfAborted();
       if (writeMemory) {
-        const inputText = normalizeInput(ctx.input);
+        // Image bytes stay out of memory; the stored turn keeps the `[image N]` labels.
+        const inputText = normalizeInput(input);
         const outputText = typeof output === "string" ? output : JSON.stringify(output);
         await ctx.memory.appendConversation(memoryScope, {
           id: makeId(),
           role: "user",
           text: inputText,
-          json: typeof ctx.input === "string" ? undefined : ctx.input,
+          json: typeof input === "string" ? undefined : input,
         });
         await ctx.memory.appendConversation(memoryScope, {
           id: makeId(),
@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import matter from "gray-matter";
-import type { Capability } from "@bolt-ai/core";
+import type { AgentGuardConfig, Capability, GuardAction, GuardRuleConfig } from "@bolt-ai/core";
 import {
   createAgent,
   type AgentDefinition,
@@ -37,6 +37,43 @@ function normalizeCapabilities(value: unknown): Capability[] | undefined {
   return caps.length ? caps : undefined;
 }
 
+const GUARD_ACTIONS = new Set<GuardAction>(["block", "flag", "rewrite"]);
+
+function normalizeGuardRules(value: unknown): GuardRuleConfig[] | undefined {
+  const list = Array.isArray(value) ? value : value && typeof value === "object" ? [value] : [];
+  const rules = list
+    .filter((rule): rule is Record<string, any> => Boolean(rule) && typeof rule === "object")
+    .map((rule) => {
+      const action = rule.action == null ? undefined : String(rule.action).toLowerCase();
+      if (action && !GUARD_ACTIONS.has(action as GuardAction)) {
+        throw new Error(`Unknown guard action '${rule.action}' in agent markdown`);
+      }
+      // Patterns are kept whole: regexes may contain commas.
+      const patterns = rule.patterns ?? rule.pattern;
+      const moderation = typeof rule.moderation === "boolean" ? rule.moderation : normalizeArray(rule.moderation);
+      const normalized: GuardRuleConfig = {
+        action: action as GuardAction | undefined,
+        keywords: normalizeArray(rule.keywords ?? rule.keyword),
+        patterns: Array.isArray(patterns) ? patterns.map(String) : typeof patterns === "string" ? [patterns] : undefined,
+        moderation,
+        checker: rule.checker == null ? undefined : String(rule.checker),
+        replaceWith: rule.replaceWith ?? rule.replace,
+        message: rule.message,
+      };
+      return Object.fromEntries(
+        Object.entries(normalized).filter(([, v]) => v !== undefined)
+      ) as GuardRuleConfig;
+    });
+  return rules.length ? rules : undefined;
+}
+
+function normalizeGuards(value: any): AgentGuardConfig | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const input = normalizeGuardRules(value.input);
+  const output = normalizeGuardRules(value.output);
+  return input || output ? { input, output } : undefined;
+}
+
 function parseMaybeJson(value: unknown): any {
   if (typeof value !== "string") return value;
   const trimmed = value.trim();
@@ -223,9 +260,11 @@ export function parseAgentMarkdown(markdown: string, options: MarkdownParseOptio
     model: meta.model ?? meta.provider,
     instructions: meta.instructions,
     inputSchema: parseMaybeJson(meta.inputSchema ?? meta.input?.schema),
+    imageInputs: normalizeArray(meta.imageInputs ?? meta.input?.images),
     outputSchema: parseMaybeJson(meta.outputSchema ?? meta.output?.schema),
     outputKind: meta.outputKind ?? meta.output?.kind,
     tools: normalizeArray(meta.tools) ?? toolsFromSection,
+    guards: normalizeGuards(meta.guards ?? meta.guardrails),
     skills,
     resolvedSkills: resolveMarkdownSkills(skills, options.skillsDir),
     memory: {
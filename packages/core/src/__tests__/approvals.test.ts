@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRuntime, InMemoryStore } from "@bolt-ai/core";
+import type { Agent, ModelProvider, Tool } from "@bolt-ai/core";
+
+const agent: Agent = {
+  id: "payer",
+  capabilities: ["text"],
+  tools: ["payments.send", "lookup"],
+  async run({ input, call }) {
+    return call({ kind: "text", prompt: String(input) });
+  },
+};
+
+function toolCallingModel(args: unknown = { amount: 100 }) {
+  return {
+    id: "m",
+    supports: ["text"],
+    call: vi
+      .fn()
+      .mockResolvedValueOnce({
+        toolCalls: [
+          { id: "c1", toolId: "lookup", args: {} },
+          { id: "c2", toolId: "payments.send", args },
+        ],
+      })
+      .mockResolvedValueOnce({ output: "done" }),
+  } as unknown as ModelProvider;
+}
+
+function tools() {
+  const send = vi.fn(async (args: { amount: number }) => ({ sent: args.amount }));
+  const lookup = vi.fn(async () => "balance ok");
+  const list: Tool[] = [
+    { id: "payments.send", requiresApproval: true, run: send },
+    { id: "lookup", run: lookup },
+  ];
+  return { send, lookup, list };
+}
+
+describe("Tool call approvals", () => {
+  it("lets the approval hook edit arguments and deny calls", async () => {
+    const model = toolCallingModel();
+    const { send, list } = tools();
+    const approveToolCall = vi.fn(async () => ({ action: "approve" as const, args: { amount: 50 } }));
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      tools: list,
+      approveToolCall,
+    });
+    const events: any[] = [];
+    runtime.router.events.subscribe((e) => events.push(e));
+
+    await expect(runtime.run("payer", "pay")).resolves.toMatchObject({ ok: true, output: "done" });
+    expect(approveToolCall).toHaveBeenCalledTimes(1);
+    expect(approveToolCall).toHaveBeenCalledWith(
+      expect.objectContaining({ toolCallId: "c2", toolId: "payments.send", args: { amount: 100 } })
+    );
+    expect(send).toHaveBeenCalledWith({ amount: 50 }, expect.any(Object));
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "tool:approval", toolCallId: "c2", decision: "edited" })
+    );
+  });
+
+  it("returns denied calls to the model as error tool results", async () => {
+    const model = toolCallingModel();
+    const { send, list } = tools();
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      tools: list,
+      approveToolCall: () => ({ action: "deny", reason: "over limit" }),
+    });
+
+    await expect(runtime.run("payer", "pay")).resolves.toMatchObject({ ok: true });
+    expect(send).not.toHaveBeenCalled();
+    expect(model.call).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        toolResults: [
+          { id: "c1", toolId: "lookup", output: "balance ok" },
+          {
+            id: "c2",
+            toolId: "payments.send",
+            output: { error: "Tool call denied: over limit", denied: true },
+            isError: true,
+          },
+        ],
+      })
+    );
+  });
+
+  it("suspends without a reviewer and resumes by replaying recorded results", async () => {
+    const model = toolCallingModel();
+    const { send, lookup, list } = tools();
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      tools: list,
+    });
+
+    const suspended = await runtime.run("payer", "pay", { id: "run-1" });
+    expect(suspended).toMatchObject({
+      ok: false,
+      suspended: true,
+      pendingApprovals: [{ toolCallId: "c2", toolId: "payments.send", args: { amount: 100 } }],
+      error: { code: "RUN_SUSPENDED" },
+    });
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(send).not.toHaveBeenCalled();
+
+    const resumed = await runtime.resume("run-1", { c2: { action: "approve" } });
+
+    expect(resumed).toMatchObject({ ok: true, id: "run-1", agentId: "payer", output: "done" });
+    expect(model.call).toHaveBeenCalledTimes(2);
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    await expect(runtime.resume("run-1", {}, { throwOnError: false })).resolves.toMatchObject({
+      ok: false,
+      error: { code: "RUN_NOT_SUSPENDED" },
+    });
+  });
+});
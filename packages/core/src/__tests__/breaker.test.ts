@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreaker,
+  createAppRouter,
+  InMemoryBreakerStore,
+  InMemoryStore,
+  MemoryStoreBreakerStore,
+} from "@bolt-ai/core";
+import type { Agent, ModelProvider } from "@bolt-ai/core";
+
+const agent: Agent = {
+  id: "a",
+  capabilities: ["text"],
+  async run({ call }) {
+    return call({ kind: "text", prompt: "hi" });
+  },
+};
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and lets a limited number of probes through after cooldown", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 100, halfOpenMaxProbes: 1 });
+
+    await expect(breaker.recordFailure("p", 0)).resolves.toBeUndefined();
+    await expect(breaker.recordFailure("p", 1)).resolves.toMatchObject({ to: "open", reason: "threshold" });
+    await expect(breaker.canRequest("p", 50)).resolves.toBe(false);
+    await expect(breaker.acquire("p", 50)).resolves.toEqual({ allowed: false });
+
+    await expect(breaker.acquire("p", 101)).resolves.toEqual({ allowed: true, transition: { to: "half-open" } });
+    await expect(breaker.acquire("p", 102)).resolves.toEqual({ allowed: false });
+    await expect(breaker.recordSuccess("p", 103)).resolves.toEqual({ to: "closed" });
+    await expect(breaker.state("p")).resolves.toMatchObject({ status: "closed", failures: 0 });
+  });
+
+  it("reopens when a half-open probe fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 100 });
+
+    await breaker.recordFailure("p", 0);
+    await breaker.acquire("p", 100);
+    await expect(breaker.recordFailure("p", 110)).resolves.toMatchObject({
+      to: "open",
+      reason: "probe-failed",
+      openUntil: 210,
+    });
+    await expect(breaker.canRequest("p", 150)).resolves.toBe(false);
+  });
+
+  it("opens on a rolling-window failure rate", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 100,
+      cooldownMs: 100,
+      window: { sizeMs: 1000, failureRate: 0.5, minRequests: 4 },
+    });
+
+    await breaker.recordSuccess("p", 0);
+    await breaker.recordFailure("p", 10);
+    await breaker.recordSuccess("p", 20);
+    await expect(breaker.recordFailure("p", 30)).resolves.toMatchObject({ to: "open", reason: "failure-rate" });
+  });
+
+  it("releases a half-open probe slot that was never used", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 100 });
+
+    await breaker.recordFailure("p", 0);
+    await breaker.acquire("p", 100);
+    await expect(breaker.acquire("p", 101)).resolves.toEqual({ allowed: false });
+    await breaker.release("p");
+    await expect(breaker.state("p")).resolves.toMatchObject({ status: "half-open", probes: 0 });
+    await expect(breaker.acquire("p", 102)).resolves.toEqual({ allowed: true });
+  });
+
+  it("does not write to the store for successes while closed and healthy", async () => {
+    const store = new InMemoryBreakerStore();
+    const set = vi.spyOn(store, "set");
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 100, store });
+
+    await breaker.recordSuccess("p", 0);
+    await breaker.recordSuccess("p", 1);
+    expect(set).not.toHaveBeenCalled();
+
+    await breaker.recordFailure("p", 2);
+    await breaker.recordSuccess("p", 3);
+    expect(set).toHaveBeenCalledTimes(2);
+    await expect(breaker.state("p")).resolves.toMatchObject({ status: "closed", failures: 0 });
+  });
+
+  it("shares state through a MemoryStore-backed store", async () => {
+    const memory = new InMemoryStore();
+    const first = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, store: new MemoryStoreBreakerStore(memory) });
+    const second = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, store: new MemoryStoreBreakerStore(memory) });
+
+    await first.recordFailure("openai", 0);
+
+    await expect(second.canRequest("openai", 10)).resolves.toBe(false);
+    await expect(memory.get("bolt:breaker:openai")).resolves.toMatchObject({ status: "open" });
+  });
+});
+
+describe("Router circuit breaker events", () => {
+  it("emits breaker transitions on the event bus", async () => {
+    vi.useFakeTimers();
+    try {
+      let fail = true;
+      const flaky = {
+        id: "flaky",
+        supports: ["text"],
+        call: vi.fn(async () => {
+          if (fail) throw new Error("down");
+          return { output: "ok" };
+        }),
+      } as unknown as ModelProvider;
+      const router = createAppRouter({
+        providers: [flaky],
+        memory: new InMemoryStore(),
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 },
+      });
+      router.registerAgents({ a: agent });
+      const types: string[] = [];
+      router.events.subscribe((e) => {
+        if (e.type.startsWith("breaker:")) types.push(e.type);
+      });
+
+      await expect(router.route({ id: "b1", agentId: "a", input: "hi" })).rejects.toThrow("down");
+      await expect(router.route({ id: "b2", agentId: "a", input: "hi" })).rejects.toMatchObject({ code: "NO_PROVIDER" });
+
+      vi.advanceTimersByTime(1000);
+      fail = false;
+      await expect(router.route({ id: "b3", agentId: "a", input: "hi" })).resolves.toBe("ok");
+
+      expect(types).toEqual(["breaker:open", "breaker:half-open", "breaker:close"]);
+      expect(flaky.call).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("hands the probe slot back when a budget downgrade skips the half-open provider", async () => {
+    const store = new InMemoryBreakerStore();
+    await store.set("openai", { status: "open", failures: 1, openUntil: 0, probes: 0, successes: 0 });
+    const priced = (id: string, cost: number) =>
+      ({
+        id,
+        supports: ["text"],
+        estimateCost: () => cost,
+        call: vi.fn(async () => ({ output: id })),
+      }) as unknown as ModelProvider;
+    const router = createAppRouter({
+      providers: [priced("openai", 1), priced("groq", 0.001)],
+      memory: new InMemoryStore(),
+      providerOrder: ["openai", "groq"],
+      budget: { maxCostUSD: 0.5 },
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000, store },
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "b4", agentId: "a", input: "hi" })).resolves.toBe("groq");
+    await expect(store.get("openai")).resolves.toMatchObject({ status: "half-open", probes: 0 });
+  });
+});
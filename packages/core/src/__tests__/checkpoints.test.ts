@@ -0,0 +1,139 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { createOrchestrator, FileCheckpointStore, InMemoryStore, MemoryCheckpointStore } from "@bolt-ai/core";
+import type { Plan, PlanCheckpoint, RunnerEvent } from "@bolt-ai/core";
+
+const plan: Plan = {
+  id: "report",
+  steps: [
+    { id: "list", kind: "tool", toolId: "list" },
+    { id: "pages", kind: "map", itemsFrom: "list", child: { kind: "tool", toolId: "fetch" }, fromItemAsInput: true },
+    { id: "summary", kind: "model", agent: "writer", inputFrom: ["pages"] },
+  ],
+  outputs: ["summary"],
+};
+
+const checkpointOf = (runId: string): PlanCheckpoint => ({
+  runId,
+  plan,
+  agentId: "a",
+  input: "go",
+  status: "running",
+  steps: {},
+  attempts: {},
+  updatedAt: Date.now(),
+});
+
+describe("Plan checkpoints", () => {
+  it("resumes a failed run without repeating finished steps", async () => {
+    const memory = new InMemoryStore();
+    const store = new MemoryCheckpointStore(memory);
+    let down = true;
+    const router = {
+      route: vi.fn(async ({ id, input }: { id: string; input: unknown }) => {
+        if (down) throw new Error("provider outage");
+        return `summary of ${JSON.stringify(input)} (${id})`;
+      }),
+    } as any;
+    const tools = {
+      list: vi.fn(async () => ["a", "b"]),
+      fetch: vi.fn(async (url: string) => `page ${url}`),
+    };
+    const orchestrator = createOrchestrator(router, {
+      planner: async (_router, ctx) => ({ ...plan, id: ctx.taskId }),
+      checkpoints: store,
+    });
+
+    await expect(
+      orchestrator.run({ taskId: "job-1", agentId: "a", input: "go", tools }, { mode: "dag" })
+    ).rejects.toThrow("provider outage");
+    const failed = (await store.load("job-1")) as PlanCheckpoint;
+    expect(failed).toMatchObject({
+      runId: "job-1",
+      status: "failed",
+      error: { message: "provider outage" },
+      steps: { list: ["a", "b"], "pages:0": "page a", "pages:1": "page b" },
+      attempts: { list: 1, "pages:0": 1, "pages:1": 1, summary: 1 },
+    });
+
+    down = false;
+    const events: RunnerEvent[] = [];
+    const result = await orchestrator.resumePlan("job-1", { tools }, { onEvent: (e) => events.push(e) });
+
+    expect(result).toEqual({ runId: "job-1", outputs: { summary: 'summary of ["page a","page b"] (job-1:summary:1)' } });
+    expect(tools.list).toHaveBeenCalledTimes(1);
+    expect(tools.fetch).toHaveBeenCalledTimes(2);
+    expect(events.filter((e) => e.type === "step:restored").map((e) => e.stepId)).toEqual(["list", "pages:0", "pages:1"]);
+    expect(events.at(-1)).toMatchObject({ type: "done" });
+    await expect(store.load("job-1")).resolves.toBeNull();
+    await expect(memory.get("bolt:checkpoint:job-1")).resolves.toBeNull();
+  });
+
+  it("keeps checkpoints of concurrent runs of the same plan apart", async () => {
+    const store = new MemoryCheckpointStore(new InMemoryStore());
+    const router = { route: vi.fn(async ({ input }: { input: unknown }) => `summary of ${JSON.stringify(input)}`) } as any;
+    const orchestrator = createOrchestrator(router, { planner: async () => plan, checkpoints: store });
+    const toolsFor = (page: string, broken: boolean) => ({
+      list: async () => ["a"],
+      fetch: vi.fn(async () => {
+        if (broken) throw new Error("fetch failed");
+        return page;
+      }),
+    });
+
+    const [failed, finished] = await Promise.allSettled([
+      orchestrator.run({ taskId: "run-a", agentId: "a", input: "go", tools: toolsFor("page a", true) }),
+      orchestrator.run({ taskId: "run-b", agentId: "a", input: "go", tools: toolsFor("page b", false) }),
+    ]);
+    expect(failed).toMatchObject({ status: "rejected", reason: { message: "fetch failed" } });
+    expect(finished).toEqual({ status: "fulfilled", value: { runId: "run-b", outputs: { summary: 'summary of ["page b"]' } } });
+    await expect(store.load("run-a")).resolves.toMatchObject({ runId: "run-a", taskId: "report", status: "failed" });
+    await expect(store.load("run-b")).resolves.toBeNull();
+    await expect(store.load("report")).resolves.toBeNull();
+
+    const tools = toolsFor("page a", false);
+    await expect(orchestrator.resumePlan("run-a", { tools })).resolves.toEqual({
+      runId: "run-a",
+      outputs: { summary: 'summary of ["page a"]' },
+    });
+    await expect(store.load("run-a")).resolves.toBeNull();
+
+    const fresh = await Promise.all([1, 2].map(() => orchestrator.run({ agentId: "a", input: "go", tools })));
+    expect(fresh[0].runId).not.toBe(fresh[1].runId);
+  });
+
+  it("stores checkpoints as files and rejects unknown runs", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "bolt-checkpoints-"));
+    try {
+      const store = new FileCheckpointStore(dir);
+      const orchestrator = createOrchestrator({ route: async () => "done" } as any, {
+        planner: async () => plan,
+        checkpoints: store,
+      });
+      const tools = { list: async () => [], fetch: async () => "" };
+
+      const saving = [
+        { ...checkpointOf("job/2"), status: "running" as const },
+        { ...checkpointOf("job/2"), status: "failed" as const },
+      ];
+      await Promise.all(saving.map((cp) => store.save(cp)));
+      expect(await fs.readdir(dir)).toEqual(["job%2F2.json"]);
+      await expect(store.load("job/2")).resolves.toMatchObject({ runId: "job/2", plan });
+
+      // The task id is the run id; a finished run deletes its checkpoint.
+      const { runId } = await orchestrator.run({ taskId: "job/3", agentId: "a", input: "go", tools });
+      expect(runId).toBe("job/3");
+      expect(await fs.readdir(dir)).toEqual(["job%2F2.json"]);
+      await store.delete("job/2");
+      expect(await fs.readdir(dir)).toEqual([]);
+      await expect(orchestrator.resumePlan(runId)).rejects.toMatchObject({ code: "CHECKPOINT_NOT_FOUND" });
+      await expect(createOrchestrator({} as any).resumePlan(runId)).rejects.toMatchObject({
+        code: "CHECKPOINT_STORE_MISSING",
+      });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
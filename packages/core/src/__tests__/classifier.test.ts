@@ -0,0 +1,125 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import { createAppRouter, createLLMClassifier, InMemoryStore } from "@bolt-ai/core";
+import type { Agent, ModelProvider } from "@bolt-ai/core";
+
+function makeProvider(id: string) {
+  return {
+    id,
+    supports: ["text"],
+    call: vi.fn(async () => ({ output: id })),
+  } as unknown as ModelProvider;
+}
+
+function labeller(...outputs: unknown[]) {
+  const call = vi.fn();
+  for (const output of outputs) {
+    if (output instanceof Error) call.mockRejectedValueOnce(output);
+    else call.mockResolvedValueOnce({ output });
+  }
+  return { id: "classifier", supports: ["json"], call } as unknown as ModelProvider;
+}
+
+const agent: Agent = {
+  id: "a",
+  capabilities: ["text"],
+  async run({ input, call }) {
+    return call({ kind: "text", prompt: String(input) });
+  },
+};
+
+function setup(classifier: ModelProvider, threshold?: number) {
+  const groq = makeProvider("groq:model");
+  const openai = makeProvider("openai:model");
+  const router = createAppRouter({
+    providers: [groq, openai],
+    memory: new InMemoryStore(),
+    preset: "auto",
+    classify: createLLMClassifier({ provider: classifier, threshold }),
+  });
+  router.registerAgents({ a: agent });
+  const events: any[] = [];
+  router.events.subscribe((e) => events.push(e));
+  const selections = () => events.filter((e) => e.type === "route:provider.select");
+  return { router, groq, openai, selections };
+}
+
+describe("LLM classifier for the auto preset", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("routes on model labels, records them on provider.select and caches by input", async () => {
+    const classifier = labeller({ sensitivity: "sensitive", complexity: "simple", confidence: 0.9 });
+    const { router, openai, selections } = setup(classifier);
+
+    await router.route({ id: "1", agentId: "a", input: "my lab results came back" });
+    await router.route({ id: "2", agentId: "a", input: "my lab results came back" });
+
+    expect(classifier.call).toHaveBeenCalledTimes(1);
+    expect(classifier.call).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "json", prompt: expect.stringContaining("my lab results came back") })
+    );
+    expect(openai.call).toHaveBeenCalledTimes(2);
+    expect(selections()).toEqual([
+      expect.objectContaining({
+        providerId: "openai:model",
+        preset: "strict",
+        classification: { preset: "strict", source: "llm", sensitivity: "sensitive", complexity: "simple", confidence: 0.9 },
+      }),
+      expect.objectContaining({ preset: "strict", classification: expect.objectContaining({ source: "cache" }) }),
+    ]);
+  });
+
+  it("keys the cache on the full input, not the truncated text", async () => {
+    const classifier = labeller(
+      { sensitivity: "general", complexity: "simple", confidence: 0.9 },
+      { sensitivity: "sensitive", complexity: "simple", confidence: 0.9 }
+    );
+    const classify = createLLMClassifier({ provider: classifier, maxInputChars: 10 });
+
+    const first = await classify("0123456789 weather today", agent);
+    const second = await classify("0123456789 my diagnosis", agent);
+
+    expect(classifier.call).toHaveBeenCalledTimes(2);
+    expect(first).toMatchObject({ preset: "cheap", source: "llm" });
+    expect(second).toMatchObject({ preset: "strict", source: "llm" });
+    await expect(classify("0123456789 my diagnosis", agent)).resolves.toMatchObject({ source: "cache" });
+  });
+
+  it("falls back to keyword patterns on low confidence, bad output or errors", async () => {
+    const classifier = labeller(
+      { sensitivity: "general", complexity: "simple", confidence: 0.4 },
+      "not json",
+      new Error("classifier down")
+    );
+    const { router, groq, openai, selections } = setup(classifier, 0.8);
+
+    await router.route({ id: "1", agentId: "a", input: "open a bank account" });
+    await router.route({ id: "2", agentId: "a", input: "hello" });
+    await router.route({ id: "3", agentId: "a", input: "my tax return" });
+
+    expect(openai.call).toHaveBeenCalledTimes(2);
+    expect(groq.call).toHaveBeenCalledTimes(1);
+    expect(selections().map((e) => e.classification)).toEqual([
+      { preset: "strict", source: "regex", sensitivity: "general", complexity: "simple", confidence: 0.4 },
+      { preset: "fast", source: "regex" },
+      { preset: "strict", source: "regex" },
+    ]);
+  });
+
+  it("does not call the classifier model from explain", async () => {
+    const classifier = labeller();
+    const { router } = setup(classifier);
+
+    await expect(router.explain({ agentId: "a", input: "tax question" })).resolves.toMatchObject({
+      provider: "openai:model",
+      providerReason: "preset 'strict'",
+    });
+    expect(classifier.call).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRuntime, InMemoryStore } from "@bolt-ai/core";
+import type { Agent, ModelProvider, ProviderCallArgs } from "@bolt-ai/core";
+
+function embedder(id: string, dims = 2) {
+  return {
+    id,
+    supports: ["text", "embedding"],
+    call: vi.fn(async (args: ProviderCallArgs) => ({
+      output: (args.texts ?? []).map((text) => Array.from({ length: dims }, () => text.length)),
+      tokens: args.texts?.length,
+    })),
+  } as unknown as ModelProvider;
+}
+
+const textOnly = {
+  id: "text-only",
+  supports: ["text"],
+  call: vi.fn(async () => ({ output: "hi" })),
+} as unknown as ModelProvider;
+
+describe("Embeddings and image generation", () => {
+  it("batches embeddings on the first provider with the capability", async () => {
+    const provider = embedder("emb");
+    const runtime = createRuntime({ providers: [textOnly, provider], embeddingBatchSize: 2 });
+
+    const result = await runtime.embed({ texts: ["a", "bb", "ccc"] });
+
+    expect(result).toMatchObject({ embeddings: [[1, 1], [2, 2], [3, 3]], providerId: "emb", tokens: 3 });
+    expect(result.usage).toMatchObject({ calls: 1, servedBy: ["emb"], promptTokens: 3, totalTokens: 3 });
+    expect((provider.call as any).mock.calls.map((c: any[]) => c[0].texts)).toEqual([["a", "bb"], ["ccc"]]);
+    expect(textOnly.call).not.toHaveBeenCalled();
+  });
+
+  it("restarts every batch on the next provider when one fails", async () => {
+    const flaky = embedder("flaky");
+    (flaky.call as any).mockImplementationOnce(async () => ({ output: [[0], [0]] }));
+    (flaky.call as any).mockImplementationOnce(async () => {
+      throw Object.assign(new Error("overloaded"), { status: 503 });
+    });
+    const backup = embedder("backup", 1);
+    const runtime = createRuntime({ providers: [flaky, backup], failover: true });
+
+    const result = await runtime.embed({ texts: ["a", "bb", "ccc"], batchSize: 2 });
+
+    expect(result).toMatchObject({ embeddings: [[1], [2], [3]], providerId: "backup" });
+    expect(result.usage?.providers.flaky).toMatchObject({ calls: 0, failures: 1 });
+    expect(backup.call).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects malformed vectors and requests no provider can serve", async () => {
+    const broken = {
+      id: "broken",
+      supports: ["embedding"],
+      call: vi.fn(async () => ({ output: [[1, 2]] })),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({ providers: [broken] });
+
+    await expect(runtime.embed({ texts: ["a", "b"] })).rejects.toMatchObject({ code: "INVALID_PROVIDER_OUTPUT" });
+    await expect(runtime.generateImage({ prompt: "a cat" })).rejects.toMatchObject({ code: "NO_PROVIDER" });
+  });
+
+  it("generates images and exposes both paths to agents", async () => {
+    const painter = {
+      id: "painter",
+      supports: ["image"],
+      call: vi.fn(async () => ({ output: [{ url: "https://img/1.png" }, {}] })),
+    } as unknown as ModelProvider;
+    const agent: Agent = {
+      id: "artist",
+      capabilities: ["text"],
+      async run({ embed, generateImage }) {
+        const { embeddings } = await embed!({ texts: "query" });
+        const { images } = await generateImage!({ prompt: "a cat", size: "512x512", count: 2 });
+        return { dims: embeddings[0].length, images };
+      },
+    };
+    const runtime = createRuntime({
+      providers: [embedder("emb", 3), painter],
+      memory: new InMemoryStore(),
+      agents: [agent],
+    });
+
+    const result = await runtime.run("artist", "go");
+
+    expect(result.output).toEqual({ dims: 3, images: [{ url: "https://img/1.png" }] });
+    expect(result.usage?.servedBy).toEqual(["emb", "painter"]);
+    expect(result.usage?.providers.emb).toMatchObject({ calls: 1, totalTokens: 1 });
+    expect(painter.call).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "image", prompt: "a cat", image: { size: "512x512", count: 2 } })
+    );
+  });
+});
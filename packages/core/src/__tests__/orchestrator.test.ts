@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { createOrchestrator } from "@bolt-ai/core";
+import { createLLMPlan, createOrchestrator } from "@bolt-ai/core";
 
 describe("orchestrator", () => {
   it("executes a heuristic plan", async () => {
@@ -13,4 +13,40 @@ describe("orchestrator", () => {
     expect(router.route).toHaveBeenCalledTimes(1);
     expect(result.outputs.step1).toBe("ok");
   });
+
+  it("rejects LLM plans with invalid nested steps", async () => {
+    const planWith = (steps: unknown[]) => JSON.stringify({ id: "p", steps, outputs: [] });
+    const invalid = [
+      [{ id: "m", kind: "map", itemsFrom: "x", child: null }],
+      [{ id: "m", kind: "map", itemsFrom: "x", steps: [{ id: "s", kind: "tool" }] }],
+      [{ id: "par", kind: "parallel", children: ["missing"] }],
+      [{ id: "a", kind: "model" }, { id: "par", kind: "parallel", children: ["a"] }],
+      [{ id: "b", kind: "branch", branches: [{ when: { truthy: "x" }, then: ["nope"] }] }],
+      [{ id: "t", kind: "tool", toolId: "x" }, { id: "b", kind: "branch", branches: [], else: [{ kind: "tool" }] }],
+    ];
+    for (const steps of invalid) {
+      const router = { route: vi.fn(async () => planWith(steps)) } as any;
+      await expect(createLLMPlan(router, { goal: "g" })).rejects.toThrow("Planner LLM did not return a valid plan");
+    }
+
+    const valid = [
+      { id: "list", kind: "tool", toolId: "list" },
+      { id: "a", kind: "model", agent: "writer" },
+      { id: "b", kind: "tool", toolId: "fetch" },
+      { id: "par", kind: "parallel", children: ["a", "b"] },
+      { id: "pick", kind: "branch", branches: [{ when: { truthy: "list" }, then: ["par"] }], else: ["a"] },
+      {
+        id: "pages",
+        kind: "map",
+        itemsFrom: "list",
+        steps: [
+          { id: "get", kind: "tool", toolId: "fetch" },
+          { id: "again", kind: "loop", body: ["get"], maxIterations: 2 },
+        ],
+      },
+    ];
+    const router = { route: vi.fn(async () => planWith(valid)) } as any;
+    await expect(createLLMPlan(router, { goal: "g" })).resolves.toMatchObject({ id: "p", steps: valid });
+    expect(router.route).toHaveBeenCalledTimes(1);
+  });
 });
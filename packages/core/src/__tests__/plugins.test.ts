@@ -0,0 +1,218 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRuntime, InMemoryStore } from "@bolt-ai/core";
+import type { Agent, ModelProvider, RouterPlugin } from "@bolt-ai/core";
+
+function model(output: unknown = "hello ada@example.com") {
+  return {
+    id: "m",
+    supports: ["text"],
+    call: vi.fn(async () => ({ output, tokens: 5 })),
+  } as unknown as ModelProvider;
+}
+
+const echo: Agent = {
+  id: "echo",
+  capabilities: ["text"],
+  async run({ input, call }) {
+    return call({ kind: "text", prompt: String(input) });
+  },
+};
+
+describe("Router plugins", () => {
+  it("runs hooks in order after the built-ins and lets them rewrite each step", async () => {
+    const provider = model();
+    const seen: string[] = [];
+    const logger: RouterPlugin = {
+      name: "logger",
+      beforeRoute: (ctx) => {
+        seen.push(`route:${ctx.input}`);
+        return { input: `${ctx.input}!` };
+      },
+      beforeProviderCall: (args, ctx) => {
+        seen.push(`call:${args.prompt}@${ctx.provider.id}`);
+        return { args: { ...args, prompt: `${args.prompt} (be brief)` } };
+      },
+      afterProviderCall: (result, ctx) => {
+        seen.push(`result:${result.output}:${ctx.usage.tokens}`);
+        return { result: { ...result, output: String(result.output).toUpperCase() } };
+      },
+      afterRoute: (output) => ({ output: { answer: output } }),
+    };
+    const runtime = createRuntime({
+      providers: [provider],
+      memory: new InMemoryStore(),
+      agents: [echo],
+      redaction: { enabled: true, emails: true, outputs: true },
+      plugins: [logger],
+    });
+
+    const result = await runtime.run("echo", "mail ada@example.com");
+
+    expect(seen).toEqual([
+      "route:mail ada@example.com",
+      "call:mail [REDACTED]!@m",
+      "result:hello [REDACTED]:5",
+    ]);
+    expect(provider.call).toHaveBeenCalledWith(expect.objectContaining({ prompt: "mail [REDACTED]! (be brief)" }));
+    expect(result.output).toEqual({ answer: "HELLO [REDACTED]" });
+  });
+
+  it("short-circuits routes, provider calls and tool calls", async () => {
+    const provider = model();
+    const cache: RouterPlugin = {
+      name: "cache",
+      beforeRoute: (ctx) => (ctx.input === "ping" ? { output: "pong" } : undefined),
+      beforeProviderCall: (args) => (args.prompt === "cached" ? { result: { output: "from cache" } } : undefined),
+      onToolCall: (call) => (call.toolId === "clock" ? { output: "noon" } : { args: { q: "rewritten" } }),
+    };
+    const lookup = vi.fn(async (args: any) => `found ${args.q}`);
+    const agent: Agent = {
+      id: "tools",
+      capabilities: ["text"],
+      tools: ["clock", "lookup"],
+      async run({ input, call, tools }) {
+        const cached = await call({ kind: "text", prompt: String(input) });
+        const time = await tools.get("clock")!.run({}, {});
+        const found = await tools.get("lookup")!.run({ q: "original" }, {});
+        return [cached, time, found];
+      },
+    };
+    const clock = vi.fn(async () => "midnight");
+    const runtime = createRuntime({
+      providers: [provider],
+      memory: new InMemoryStore(),
+      agents: [echo, agent],
+      tools: [
+        { id: "clock", run: clock },
+        { id: "lookup", run: lookup },
+      ],
+      plugins: [cache],
+    });
+
+    await expect(runtime.run("echo", "ping")).resolves.toMatchObject({ output: "pong" });
+    await expect(runtime.run("tools", "cached")).resolves.toMatchObject({
+      output: ["from cache", "noon", "found rewritten"],
+    });
+    expect(provider.call).not.toHaveBeenCalled();
+    expect(clock).not.toHaveBeenCalled();
+  });
+
+  it("lets onError recover or replace failures", async () => {
+    const failing = {
+      id: "m",
+      supports: ["text"],
+      call: vi.fn(async () => {
+        throw new Error("provider down");
+      }),
+    } as unknown as ModelProvider;
+    const fallback: RouterPlugin = {
+      name: "fallback",
+      onError: (error, ctx) =>
+        ctx.input === "recover" ? { output: "sorry, try later" } : { error: new Error(`wrapped: ${(error as Error).message}`) },
+    };
+    const runtime = createRuntime({ providers: [failing], memory: new InMemoryStore(), agents: [echo], plugins: [fallback] });
+
+    await expect(runtime.run("echo", "recover")).resolves.toMatchObject({ ok: true, output: "sorry, try later" });
+    await expect(runtime.run("echo", "fail", { throwOnError: false })).resolves.toMatchObject({
+      ok: false,
+      error: { message: "wrapped: provider down" },
+    });
+  });
+
+  it("reports classifier and provider selection failures through onError and onRouteError", async () => {
+    const seen: string[] = [];
+    const observer: RouterPlugin = {
+      name: "observer",
+      onError: (error, ctx) => {
+        seen.push(`error:${(error as Error).message}`);
+        return ctx.input === "recover" ? { output: "fallback" } : undefined;
+      },
+      onRouteError: (error) => {
+        seen.push(`route:${(error as Error).message}`);
+      },
+    };
+    const classify = vi.fn(async () => {
+      throw new Error("classifier down");
+    });
+    const classified = createRuntime({
+      providers: [model()],
+      memory: new InMemoryStore(),
+      agents: [echo],
+      preset: "auto",
+      classify,
+      plugins: [observer],
+    });
+    const events: any[] = [];
+    classified.router.events.subscribe((e) => events.push(e));
+
+    await expect(classified.run("echo", "hi", { throwOnError: false })).resolves.toMatchObject({
+      ok: false,
+      error: { message: "classifier down" },
+    });
+    expect(seen).toEqual(["error:classifier down", "route:classifier down"]);
+    expect(events.map((e) => e.type)).toContain("error");
+
+    seen.length = 0;
+    const unmatched = createRuntime({
+      providers: [model()],
+      memory: new InMemoryStore(),
+      agents: [{ ...echo, capabilities: ["json"] }],
+      plugins: [observer],
+    });
+    await expect(unmatched.run("echo", "hi", { throwOnError: false })).resolves.toMatchObject({
+      ok: false,
+      error: { code: "NO_PROVIDER" },
+    });
+    await expect(unmatched.run("echo", "recover")).resolves.toMatchObject({ ok: true, output: "fallback" });
+    expect(seen).toEqual([
+      expect.stringMatching(/^error:No model provider/),
+      expect.stringMatching(/^route:No model provider/),
+      expect.stringMatching(/^error:No model provider/),
+    ]);
+  });
+
+  it("runs budgets, the breaker and trace events as built-in plugins around user hooks", async () => {
+    const failing = {
+      id: "m",
+      supports: ["text"],
+      call: vi.fn(async () => {
+        throw new Error("provider down");
+      }),
+    } as unknown as ModelProvider;
+    const seen: string[] = [];
+    const observer: RouterPlugin = {
+      name: "observer",
+      onProviderError: (error, ctx) => {
+        seen.push(`provider:${ctx.provider.id}:${(error as Error).message}`);
+      },
+      onRouteError: (error) => {
+        seen.push(`route:${(error as Error).message}`);
+      },
+    };
+    const runtime = createRuntime({
+      providers: [failing],
+      memory: new InMemoryStore(),
+      agents: [echo],
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+      plugins: [observer],
+    });
+    const events: any[] = [];
+    runtime.router.events.subscribe((e) => events.push(e));
+
+    await expect(runtime.run("echo", "hi", { throwOnError: false })).resolves.toMatchObject({ ok: false });
+
+    expect(seen).toEqual(["provider:m:provider down", "route:provider down"]);
+    expect(events.map((e) => e.type)).toEqual(expect.arrayContaining(["breaker:open", "error"]));
+
+    const budgeted = createRuntime({
+      providers: [model()],
+      memory: new InMemoryStore(),
+      agents: [echo],
+      budget: { maxTokens: 4 },
+    });
+    await expect(budgeted.run("echo", "hi", { throwOnError: false })).resolves.toMatchObject({
+      ok: false,
+      error: { code: "BUDGET_EXCEEDED" },
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRuntime, InMemoryStore, QuotaManager } from "@bolt-ai/core";
+import type { Agent, MemoryStore, ModelProvider } from "@bolt-ai/core";
+
+const agent: Agent = {
+  id: "a",
+  capabilities: ["text"],
+  async run({ input, call }) {
+    return call({ kind: "text", prompt: String(input) });
+  },
+};
+
+function model(tokens: number) {
+  return {
+    id: "m",
+    supports: ["text"],
+    call: vi.fn(async () => ({ output: "ok", tokens })),
+    estimateCost: ({ tokens }: { tokens?: number }) => (tokens ?? 0) * 0.01,
+  } as unknown as ModelProvider;
+}
+
+describe("Tenant quotas", () => {
+  it("counts usage per tenant and rejects calls past the daily limit", async () => {
+    const provider = model(40);
+    const runtime = createRuntime({
+      providers: [provider],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      quotas: { limits: { tokensPerDay: 85 } },
+    });
+
+    await runtime.run("a", "hi", { tenantId: "acme" });
+    await runtime.run("a", "hi", { tenantId: "acme" });
+    const blocked = await runtime.run("a", "hello there, how are you", { tenantId: "acme", throwOnError: false });
+
+    expect(blocked.error).toMatchObject({
+      code: "QUOTA_EXCEEDED",
+      details: { tenantId: "acme", period: "day", dimension: "tokens", spent: 80, limit: 85, estimated: 6 },
+    });
+    expect(provider.call).toHaveBeenCalledTimes(2);
+    await expect(runtime.run("a", "hi", { tenantId: "globex" })).resolves.toMatchObject({ ok: true });
+  });
+
+  it("derives tenants from memory scopes, applies overrides and exposes admin reads and resets", async () => {
+    const runtime = createRuntime({
+      providers: [model(10)],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      quotas: {
+        limits: { costUSDPerMonth: 1 },
+        tenants: { acme: { costUSDPerMonth: 0.105 } },
+        tenantFromScope: (scope) => scope.split(":")[0],
+      },
+    });
+
+    await runtime.run("a", "hi", { memoryScope: "acme:user-1" });
+    await expect(
+      runtime.run("a", "hi", { memoryScope: "acme:user-2", throwOnError: false })
+    ).resolves.toMatchObject({ ok: false, error: { code: "QUOTA_EXCEEDED", details: { dimension: "cost" } } });
+
+    const usage = await runtime.getQuotaUsage("acme");
+    expect(usage).toMatchObject({ tenantId: "acme", month: { tokens: 10 }, limits: { costUSDPerMonth: 0.105 } });
+    expect(usage.month.costUSD).toBeCloseTo(0.1);
+    expect(usage.month.period).toMatch(/^\d{4}-\d{2}$/);
+
+    await runtime.resetQuota("acme");
+    await expect(runtime.run("a", "hi", { memoryScope: "acme:user-2" })).resolves.toMatchObject({ ok: true });
+  });
+
+  it("checks and charges tenant quotas for embeddings and images", async () => {
+    const embedder = {
+      id: "emb",
+      supports: ["embedding", "image"],
+      call: vi.fn(async (args: { kind: string; texts?: string[] }) =>
+        args.kind === "image"
+          ? { output: [{ url: "https://img/1.png" }] }
+          : { output: (args.texts ?? []).map(() => [1]), tokens: 50 }
+      ),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [embedder],
+      memory: new InMemoryStore(),
+      quotas: { limits: { tokensPerDay: 55 } },
+    });
+
+    await runtime.embed({ texts: ["a"], tenantId: "acme" });
+    await expect(runtime.getQuotaUsage("acme")).resolves.toMatchObject({ day: { tokens: 50 } });
+    await expect(runtime.generateImage({ prompt: "a very detailed painting of a cat", tenantId: "acme" })).rejects.toMatchObject({
+      code: "QUOTA_EXCEEDED",
+      details: { tenantId: "acme", dimension: "tokens", spent: 50 },
+    });
+    expect(embedder.call).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to read-modify-write for stores without increment", async () => {
+    const kv = new Map<string, unknown>();
+    const memory = {
+      get: async (key: string) => kv.get(key) ?? null,
+      set: async (key: string, value: unknown) => void kv.set(key, value),
+    } as unknown as MemoryStore;
+    const quotas = new QuotaManager(memory, { limits: { tokensPerMonth: 10 } });
+    const now = new Date("2026-10-19T12:00:00Z");
+
+    await quotas.record("acme", { tokens: 6 }, now);
+    await quotas.record("acme", { tokens: 3 }, now);
+
+    expect(kv.get("bolt:quota:acme:month:2026-10:tokens")).toBe(9);
+    await expect(quotas.check("acme", { tokens: 2 }, now)).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+    await expect(quotas.check("acme", { tokens: 2 }, new Date("2026-11-01T00:00:00Z"))).resolves.toBeUndefined();
+  });
+});
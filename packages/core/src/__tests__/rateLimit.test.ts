@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAppRouter, InMemoryStore, RateLimiter } from "@bolt-ai/core";
+import type { Agent, ModelProvider, RateLimitLease } from "@bolt-ai/core";
+
+const agent: Agent = {
+  id: "a",
+  capabilities: ["text"],
+  async run({ call }) {
+    return call({ kind: "text", prompt: "hi" });
+  },
+};
+
+function deferredProvider(id: string) {
+  const pending: ((value: { output: string; tokens?: number }) => void)[] = [];
+  const provider = {
+    id,
+    supports: ["text"],
+    call: vi.fn(() => new Promise((resolve) => pending.push(resolve))),
+  } as unknown as ModelProvider;
+  return { provider, finish: (tokens?: number) => pending.shift()?.({ output: id, tokens }) };
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("matches exact ids before the longest glob pattern", () => {
+    const limiter = new RateLimiter({
+      "*": { maxConcurrent: 10 },
+      "openai:*": { maxConcurrent: 2 },
+      "openai:gpt-4o": { maxConcurrent: 1 },
+    });
+
+    expect(limiter.ruleFor("openai:gpt-4o")).toEqual({ maxConcurrent: 1 });
+    expect(limiter.ruleFor("openai:gpt-4o-mini")).toEqual({ maxConcurrent: 2 });
+    expect(limiter.ruleFor("groq")).toEqual({ maxConcurrent: 10 });
+  });
+
+  it("queues callers over the concurrency limit in FIFO order", async () => {
+    const limiter = new RateLimiter({ p: { maxConcurrent: 1 } });
+    const first = limiter.tryAcquire("p") as RateLimitLease;
+    expect(limiter.tryAcquire("p")).toBe("concurrency");
+
+    const order: string[] = [];
+    const second = limiter.acquire("p").then((lease) => {
+      order.push("second");
+      return lease;
+    });
+    const third = limiter.acquire("p").then((lease) => {
+      order.push("third");
+      return lease;
+    });
+
+    first.release();
+    (await second).release();
+    await third;
+    expect(order).toEqual(["second", "third"]);
+  });
+
+  it("refills the request bucket over the minute", async () => {
+    const limiter = new RateLimiter({ p: { requestsPerMinute: 2 } });
+    (limiter.tryAcquire("p") as RateLimitLease).release();
+    (limiter.tryAcquire("p") as RateLimitLease).release();
+    expect(limiter.tryAcquire("p")).toBe("requests");
+
+    let granted = false;
+    const waiting = limiter.acquire("p").then(() => {
+      granted = true;
+    });
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await waiting;
+    expect(granted).toBe(true);
+  });
+
+  it("blocks new calls while the token bucket is in debt", async () => {
+    const limiter = new RateLimiter({ p: { tokensPerMinute: 600 } });
+    (limiter.tryAcquire("p") as RateLimitLease).release(900);
+    expect(limiter.tryAcquire("p")).toBe("tokens");
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(typeof limiter.tryAcquire("p")).toBe("object");
+  });
+
+  it("rejects a queued caller with ABORTED when its signal fires", async () => {
+    const limiter = new RateLimiter({ p: { maxConcurrent: 1 } });
+    limiter.tryAcquire("p");
+    const controller = new AbortController();
+    const waiting = limiter.acquire("p", controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ code: "ABORTED" });
+  });
+});
+
+describe("Router rate limits", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("waits for a slot and emits wait-time events", async () => {
+    const openai = deferredProvider("openai");
+    const router = createAppRouter({
+      providers: [openai.provider],
+      memory: new InMemoryStore(),
+      rateLimits: { openai: { maxConcurrent: 1 } },
+    });
+    router.registerAgents({ a: agent });
+    const events: any[] = [];
+    router.events.subscribe((e) => events.push(e));
+
+    const first = router.route({ id: "r1", agentId: "a", input: "hi" });
+    const second = router.route({ id: "r2", agentId: "a", input: "hi" });
+    await vi.waitFor(() => expect(events).toContainEqual({ type: "ratelimit:wait", id: "r2", providerId: "openai", reason: "concurrency" }));
+    expect(openai.provider.call).toHaveBeenCalledTimes(1);
+
+    openai.finish();
+    await expect(first).resolves.toBe("openai");
+    await vi.waitFor(() => expect(openai.provider.call).toHaveBeenCalledTimes(2));
+    openai.finish();
+    await expect(second).resolves.toBe("openai");
+    expect(events).toContainEqual(expect.objectContaining({ type: "ratelimit:acquired", id: "r2", providerId: "openai" }));
+  });
+
+  it("spills over to the next provider in order instead of waiting", async () => {
+    const openai = deferredProvider("openai");
+    const groq = deferredProvider("groq");
+    const router = createAppRouter({
+      providers: [openai.provider, groq.provider],
+      memory: new InMemoryStore(),
+      providerOrder: ["openai", "groq"],
+      rateLimits: { openai: { maxConcurrent: 1, onLimit: "spillover" } },
+    });
+    router.registerAgents({ a: agent });
+    const events: any[] = [];
+    router.events.subscribe((e) => events.push(e));
+
+    const first = router.route({ id: "s1", agentId: "a", input: "hi" });
+    await vi.waitFor(() => expect(openai.provider.call).toHaveBeenCalledTimes(1));
+    const second = router.route({ id: "s2", agentId: "a", input: "hi" });
+    await vi.waitFor(() => expect(groq.provider.call).toHaveBeenCalledTimes(1));
+
+    openai.finish();
+    groq.finish();
+    await expect(first).resolves.toBe("openai");
+    await expect(second).resolves.toBe("groq");
+    expect(events).toContainEqual({
+      type: "ratelimit:spillover",
+      id: "s2",
+      fromProviderId: "openai",
+      toProviderId: "groq",
+      reason: "concurrency",
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRuntime, InMemoryStore, Redactor } from "@bolt-ai/core";
+import type { Agent, ModelProvider } from "@bolt-ai/core";
+
+function agent(tools?: string[]): Agent {
+  return {
+    id: "a",
+    capabilities: ["text"],
+    tools,
+    async run({ input, call }) {
+      // Agents may forward structured input as ProviderCallArgs.input.
+      return call({ kind: "text", prompt: "Handle this", input } as any);
+    },
+  };
+}
+
+describe("Redactor", () => {
+  it("redacts strings nested in objects and arrays", () => {
+    const redactor = new Redactor({ emails: true });
+
+    expect(redactor.redact({ user: { email: "ada@example.com", keys: ["sk-1234567890abcdef"] }, n: 1 })).toEqual({
+      user: { email: "[REDACTED]", keys: ["[REDACTED]"] },
+      n: 1,
+    });
+  });
+
+  it("keeps emails and model outputs untouched unless opted in", () => {
+    const redactor = new Redactor();
+
+    expect(redactor.redactText("ada@example.com sk-1234567890abcdef")).toBe("ada@example.com [REDACTED]");
+    expect(redactor.processResult({ output: "key sk-1234567890abcdef" })).toEqual({ output: "key sk-1234567890abcdef" });
+  });
+
+  it("redacts a secret split across streamed deltas", () => {
+    const redactor = new Redactor({ outputs: true });
+    const out: string[] = [];
+    const stream = redactor.createStreamFilter((delta) => out.push(delta));
+
+    const intro = "Hello there. ".repeat(6);
+    stream.push(`${intro}Your key is sk-12345`);
+    stream.push("67890abcdef, keep it safe.");
+    stream.flush();
+    expect(out.length).toBeGreaterThan(1);
+    expect(out.join("")).toBe(`${intro}Your key is [REDACTED], keep it safe.`);
+  });
+
+  it("uses stable placeholders in reversible mode and restores them", () => {
+    const redactor = new Redactor({ reversible: true, emails: true });
+    const redacted = redactor.redactText("mail ada@example.com, cc bob@example.com, again ada@example.com");
+
+    expect(redacted).toBe("mail [EMAIL_1], cc [EMAIL_2], again [EMAIL_1]");
+    expect(redactor.restore({ to: "[EMAIL_2]", unknown: "[EMAIL_9]" })).toEqual({
+      to: "bob@example.com",
+      unknown: "[EMAIL_9]",
+    });
+  });
+
+  it("labels custom rules and holds back split placeholders in streams", () => {
+    const redactor = new Redactor({ reversible: true, patterns: [{ name: "order", pattern: /ORD-\d+/ }] });
+    expect(redactor.redactText("status of ORD-42")).toBe("status of [ORDER_1]");
+
+    const out: string[] = [];
+    const stream = redactor.createStreamFilter((delta) => out.push(delta));
+    stream.push("Order [ORD");
+    stream.push("ER_1] shipped");
+    stream.flush();
+    expect(out.join("")).toBe("Order ORD-42 shipped");
+  });
+});
+
+describe("Router redaction", () => {
+  it("redacts structured input, tool results and echoed outputs", async () => {
+    const model = {
+      id: "m",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({ toolCalls: [{ id: "c1", toolId: "lookup", args: {} }] })
+        .mockResolvedValueOnce({ output: "Your key is sk-1234567890abcdef" }),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [agent(["lookup"])],
+      tools: [{ id: "lookup", run: async () => ({ owner: "ada@example.com" }) }],
+      redaction: { enabled: true, emails: true, outputs: true },
+    });
+
+    const result = await runtime.run("a", { contact: "ada@example.com" });
+
+    expect(result.output).toBe("Your key is [REDACTED]");
+    const [first, second] = (model.call as any).mock.calls.map((c: any[]) => c[0]);
+    expect(first.input).toEqual({ contact: "[REDACTED]" });
+    expect(second.toolResults).toEqual([{ id: "c1", toolId: "lookup", output: { owner: "[REDACTED]" } }]);
+  });
+
+  it("gives tools and the caller real values in reversible mode while the provider sees placeholders", async () => {
+    const model = {
+      id: "m",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({ toolCalls: [{ id: "c1", toolId: "notify", args: { to: "[EMAIL_1]" } }] })
+        .mockResolvedValueOnce({ output: "Notified [EMAIL_1]" }),
+    } as unknown as ModelProvider;
+    const notify = vi.fn(async (args: { to: string }) => ({ sent: args.to }));
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [agent(["notify"])],
+      tools: [{ id: "notify", run: notify }],
+      redaction: { reversible: true, emails: true },
+    });
+
+    const result = await runtime.run("a", { contact: "ada@example.com" });
+
+    expect(result.output).toBe("Notified ada@example.com");
+    expect(notify).toHaveBeenCalledWith({ to: "ada@example.com" }, expect.any(Object));
+    const [first, second] = (model.call as any).mock.calls.map((c: any[]) => c[0]);
+    expect(first.input).toEqual({ contact: "[EMAIL_1]" });
+    expect(second.toolResults).toEqual([{ id: "c1", toolId: "notify", output: { sent: "[EMAIL_1]" } }]);
+  });
+
+  it("redacts texts sent for embedding", async () => {
+    const embedder = {
+      id: "emb",
+      supports: ["embedding"],
+      call: vi.fn(async (args: { texts?: string[] }) => ({ output: (args.texts ?? []).map(() => [1]) })),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [embedder],
+      memory: new InMemoryStore(),
+      redaction: { enabled: true },
+    });
+
+    await runtime.embed({ texts: ["token sk-1234567890abcdef"] });
+
+    expect((embedder.call as any).mock.calls[0][0].texts).toEqual(["token [REDACTED]"]);
+  });
+});
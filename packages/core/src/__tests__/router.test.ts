@@ -1,5 +1,5 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
-import { createAppRouter, InMemoryStore } from "@bolt-ai/core";
+import { createAppRouter, InMemoryBreakerStore, InMemoryStore, Registry } from "@bolt-ai/core";
 import type { Agent, ModelProvider } from "@bolt-ai/core";
 
 function makeProvider(id: string, supports: string[]) {
@@ -160,3 +160,485 @@ describe("Router provider selection", () => {
     expect(seenPrompt).not.toContain("sk-1234567890abcdef");
   });
 });
+
+describe("Router provider failover", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function failingProvider(id: string, error: unknown) {
+    return {
+      id,
+      supports: ["text"],
+      call: vi.fn(async () => {
+        throw error;
+      }),
+    } as unknown as ModelProvider;
+  }
+
+  it("retries the same call on the next provider in preset order", async () => {
+    const openai = failingProvider("openai", Object.assign(new Error("rate limited"), { status: 429 }));
+    const groq = makeProvider("groq", ["text"]);
+    const router = createAppRouter({
+      providers: [groq, openai],
+      memory: new InMemoryStore(),
+      preset: "strict",
+      failover: true,
+    });
+    router.registerAgents({ a: agent });
+    const events: any[] = [];
+    router.events.subscribe((e) => events.push(e));
+
+    await expect(router.route({ id: "f1", agentId: "a", input: "hi" })).resolves.toBe("groq");
+    expect(openai.call).toHaveBeenCalledTimes(1);
+    expect(groq.call).toHaveBeenCalledWith(expect.objectContaining({ kind: "text", prompt: "hi" }));
+    expect(events).toContainEqual({
+      type: "route:provider.failover",
+      id: "f1",
+      fromProviderId: "openai",
+      toProviderId: "groq",
+      attempt: 1,
+      message: "rate limited",
+    });
+  });
+
+  it("starts every call of a route on the preferred provider", async () => {
+    let outage = true;
+    const primary = {
+      id: "primary",
+      supports: ["text"],
+      call: vi.fn(async () => {
+        if (outage) throw Object.assign(new Error("unavailable"), { status: 503 });
+        return { output: "primary" };
+      }),
+    } as unknown as ModelProvider;
+    const backup = makeProvider("backup", ["text"]);
+    const router = createAppRouter({ providers: [primary, backup], memory: new InMemoryStore(), failover: true });
+    router.registerAgents({
+      twice: {
+        id: "twice",
+        capabilities: ["text"],
+        async run({ call }) {
+          const first = await call({ kind: "text", prompt: "one" });
+          outage = false;
+          const second = await call({ kind: "text", prompt: "two" });
+          return [first, second];
+        },
+      },
+    });
+    const usages: any[] = [];
+
+    await expect(
+      router.route({ id: "f4", agentId: "twice", input: "hi", onUsage: (u) => usages.push(u) })
+    ).resolves.toEqual(["backup", "primary"]);
+    expect(primary.call).toHaveBeenCalledTimes(2);
+    expect(backup.call).toHaveBeenCalledTimes(1);
+    expect(usages[0].servedBy).toEqual(["backup", "primary"]);
+  });
+
+  it("does not fail over on non-retryable errors", async () => {
+    const bad = failingProvider("bad", Object.assign(new Error("bad request"), { status: 400 }));
+    const good = makeProvider("good", ["text"]);
+    const router = createAppRouter({
+      providers: [bad, good],
+      memory: new InMemoryStore(),
+      failover: true,
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "f2", agentId: "a", input: "hi" })).rejects.toThrow("bad request");
+    expect(good.call).not.toHaveBeenCalled();
+  });
+
+  it("uses a custom retryable classifier and attempt limit", async () => {
+    const first = failingProvider("first", new Error("quota"));
+    const second = failingProvider("second", new Error("quota"));
+    const third = makeProvider("third", ["text"]);
+    const isRetryable = vi.fn((error: any) => error.message === "quota");
+    const router = createAppRouter({
+      providers: [first, second, third],
+      memory: new InMemoryStore(),
+      failover: { maxAttempts: 2, isRetryable },
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "f3", agentId: "a", input: "hi" })).rejects.toMatchObject({
+      code: "PROVIDERS_EXHAUSTED",
+    });
+    expect(isRetryable).toHaveBeenCalledTimes(2);
+    expect(third.call).not.toHaveBeenCalled();
+  });
+
+  it("skips providers whose circuit breaker is open", async () => {
+    const down = failingProvider("down", new Error("503"));
+    const flaky = failingProvider("flaky", new Error("503"));
+    const good = makeProvider("good", ["text"]);
+    const router = createAppRouter({
+      providers: [down, flaky, good],
+      memory: new InMemoryStore(),
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 },
+      failover: true,
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "f4", agentId: "a", input: "hi" })).resolves.toBe("good");
+    await expect(router.route({ id: "f5", agentId: "a", input: "hi" })).resolves.toBe("good");
+    expect(down.call).toHaveBeenCalledTimes(1);
+    expect(flaky.call).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not replay a call after tokens were streamed", async () => {
+    const partial = {
+      id: "partial",
+      supports: ["text"],
+      call: vi.fn(async (args: any) => {
+        args.onToken?.("hel");
+        throw new Error("stream reset");
+      }),
+    } as unknown as ModelProvider;
+    const good = makeProvider("good", ["text"]);
+    const router = createAppRouter({
+      providers: [partial, good],
+      memory: new InMemoryStore(),
+      failover: true,
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "f6", agentId: "a", input: "hi", onToken: () => {} })).rejects.toThrow(
+      "stream reset"
+    );
+    expect(good.call).not.toHaveBeenCalled();
+  });
+});
+
+describe("Router agent model pins", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const pinned = (model: string): Agent => ({ ...agent, id: "pinned", model });
+
+  it("routes to the provider matching an exact provider:model pin", async () => {
+    const openai = makeProvider("openai:gpt-4o-mini", ["text"]);
+    const groq = makeProvider("groq:llama-3.3-70b-versatile", ["text"]);
+    const router = createAppRouter({
+      providers: [openai, groq],
+      memory: new InMemoryStore(),
+      preset: "strict",
+    });
+    router.registerAgents({ pinned: pinned("groq:llama-3.3-70b-versatile") });
+
+    await router.route({ id: "m1", agentId: "pinned", input: "hi" });
+    expect(groq.call).toHaveBeenCalledTimes(1);
+    expect(openai.call).not.toHaveBeenCalled();
+  });
+
+  it("matches a bare provider id against provider:model ids", async () => {
+    const openai = makeProvider("openai:gpt-4o-mini", ["text"]);
+    const groq = makeProvider("groq:llama-3.3-70b-versatile", ["text"]);
+    const router = createAppRouter({ providers: [openai, groq], memory: new InMemoryStore() });
+    router.registerAgents({ pinned: pinned("groq") });
+
+    await expect(router.explain({ agentId: "pinned" })).resolves.toMatchObject({
+      provider: "groq:llama-3.3-70b-versatile",
+      providerReason: "agent 'pinned' pins provider 'groq'; fallback by registration order",
+      providers: ["groq:llama-3.3-70b-versatile", "openai:gpt-4o-mini"],
+    });
+  });
+
+  it("instantiates pinned models through providerFactories once", async () => {
+    const created = makeProvider("groq:llama-3.1-8b-instant", ["text"]);
+    const factory = vi.fn(() => created);
+    const router = createAppRouter({
+      providers: [makeProvider("groq:llama-3.3-70b-versatile", ["text"])],
+      providerFactories: { groq: factory },
+      memory: new InMemoryStore(),
+    });
+    router.registerAgents({ pinned: pinned("groq:llama-3.1-8b-instant") });
+
+    await router.route({ id: "m2", agentId: "pinned", input: "hi" });
+    await router.route({ id: "m3", agentId: "pinned", input: "hi" });
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory).toHaveBeenCalledWith("llama-3.1-8b-instant");
+    expect(created.call).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the preset order when the pinned model is unavailable", async () => {
+    const groq = makeProvider("groq:llama-3.3-70b-versatile", ["text"]);
+    const openai = makeProvider("openai:gpt-4o-mini", ["text"]);
+    const router = createAppRouter({
+      providers: [groq, openai],
+      memory: new InMemoryStore(),
+      preset: "strict",
+    });
+    router.registerAgents({ pinned: pinned("anthropic:claude") });
+
+    await router.route({ id: "m4", agentId: "pinned", input: "hi" });
+    expect(openai.call).toHaveBeenCalledTimes(1);
+    await expect(router.explain({ agentId: "pinned" })).resolves.toMatchObject({
+      provider: "openai:gpt-4o-mini",
+      providerReason: "agent model 'anthropic:claude' unavailable; using preset 'strict'",
+    });
+  });
+});
+
+describe("Router hedged requests", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function hangingProvider(id: string) {
+    const signals: AbortSignal[] = [];
+    const provider = {
+      id,
+      supports: ["text"],
+      call: vi.fn(({ signal }: { signal?: AbortSignal }) => {
+        if (signal) signals.push(signal);
+        return new Promise(() => {});
+      }),
+    } as unknown as ModelProvider;
+    return { provider, signals };
+  }
+
+  it("races the next candidate after the hedge delay and cancels the loser", async () => {
+    const slow = hangingProvider("openai");
+    const fast = makeProvider("groq", ["text"]);
+    const router = createAppRouter({
+      providers: [slow.provider, fast],
+      memory: new InMemoryStore(),
+      providerOrder: ["openai", "groq"],
+      hedge: 10,
+    });
+    router.registerAgents({ a: agent });
+    const events: any[] = [];
+    router.events.subscribe((e) => events.push(e));
+
+    await expect(router.route({ id: "h1", agentId: "a", input: "hi" })).resolves.toBe("groq");
+    expect(slow.signals[0].aborted).toBe(true);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "route:provider.hedge", id: "h1", fromProviderId: "openai", toProviderId: "groq" })
+    );
+    expect(events).toContainEqual(expect.objectContaining({ type: "provider:call:end", providerId: "groq" }));
+  });
+
+  it("does not hedge when the first provider answers within the delay", async () => {
+    const first = makeProvider("openai", ["text"]);
+    const second = makeProvider("groq", ["text"]);
+    const router = createAppRouter({
+      providers: [first, second],
+      memory: new InMemoryStore(),
+      providerOrder: ["openai", "groq"],
+      hedge: { delayMs: 50 },
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "h2", agentId: "a", input: "hi" })).resolves.toBe("openai");
+    expect(second.call).not.toHaveBeenCalled();
+  });
+
+  it("derives the hedge delay from the latency budget and keeps a stream that already started", async () => {
+    let finish: (value: unknown) => void = () => {};
+    const streaming = {
+      id: "openai",
+      supports: ["text"],
+      call: vi.fn(({ onToken }: { onToken?: (delta: string) => void }) => {
+        onToken?.("Hel");
+        return new Promise((resolve) => {
+          finish = resolve;
+        });
+      }),
+    } as unknown as ModelProvider;
+    const second = makeProvider("groq", ["text"]);
+    const router = createAppRouter({
+      providers: [streaming, second],
+      memory: new InMemoryStore(),
+      providerOrder: ["openai", "groq"],
+      budget: { maxLatencyMs: 20 },
+      hedge: { enabled: true },
+    });
+    router.registerAgents({ a: agent });
+    const deltas: string[] = [];
+
+    const pending = router.route({ id: "h3", agentId: "a", input: "hi", onToken: (d) => deltas.push(d) });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    finish({ output: "Hello" });
+
+    await expect(pending).rejects.toThrow("Route budget exceeded: latency");
+    expect(second.call).not.toHaveBeenCalled();
+    expect(deltas).toEqual(["Hel"]);
+  });
+});
+
+describe("Router pre-flight budgets", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function pricedProvider(id: string, usdPerToken: number) {
+    return {
+      id,
+      supports: ["text"],
+      call: vi.fn(async () => ({ output: id, tokens: 10 })),
+      estimateCost: ({ tokens }: { tokens?: number }) => (tokens ?? 0) * usdPerToken,
+    } as unknown as ModelProvider;
+  }
+
+  it("downgrades to a cheaper provider when the estimate exceeds the remaining budget", async () => {
+    const pricey = pricedProvider("openai", 1);
+    const cheap = pricedProvider("groq", 0.001);
+    const router = createAppRouter({
+      providers: [pricey, cheap],
+      memory: new InMemoryStore(),
+      providerOrder: ["openai", "groq"],
+      budget: { maxCostUSD: 0.5 },
+    });
+    router.registerAgents({ a: agent });
+    const events: any[] = [];
+    router.events.subscribe((e) => events.push(e));
+
+    await expect(router.route({ id: "b1", agentId: "a", input: "hi" })).resolves.toBe("groq");
+    expect(pricey.call).not.toHaveBeenCalled();
+    expect(events).toContainEqual({
+      type: "route:budget.downgrade",
+      id: "b1",
+      fromProviderId: "openai",
+      toProviderId: "groq",
+      estimatedCostUSD: 1,
+      remainingUSD: 0.5,
+    });
+  });
+
+  it("refuses the call with BUDGET_EXCEEDED when no candidate fits", async () => {
+    const pricey = pricedProvider("openai", 1);
+    const router = createAppRouter({
+      providers: [pricey],
+      memory: new InMemoryStore(),
+      budget: { maxCostUSD: 0.5 },
+    });
+    router.registerAgents({ a: agent });
+
+    await expect(router.route({ id: "b2", agentId: "a", input: "hi" })).rejects.toMatchObject({
+      code: "BUDGET_EXCEEDED",
+      details: { dimension: "cost", spent: 0, limit: 0.5, estimated: 1 },
+    });
+    expect(pricey.call).not.toHaveBeenCalled();
+  });
+
+  it("enforces maxTokens across calls using reported and counted tokens", async () => {
+    const provider = {
+      ...pricedProvider("openai", 0),
+      countTokens: () => 5,
+    } as unknown as ModelProvider;
+    const twice: Agent = {
+      id: "a",
+      capabilities: ["text"],
+      async run({ call }) {
+        await call({ kind: "text", prompt: "one" });
+        return call({ kind: "text", prompt: "two" });
+      },
+    };
+    const router = createAppRouter({
+      providers: [provider],
+      memory: new InMemoryStore(),
+      budget: { maxTokens: 12 },
+    });
+    router.registerAgents({ a: twice });
+
+    await expect(router.route({ id: "b3", agentId: "a", input: "hi" })).rejects.toMatchObject({
+      code: "BUDGET_EXCEEDED",
+      details: { dimension: "tokens", spent: 10, limit: 12, estimated: 5 },
+    });
+    expect(provider.call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Router explain", () => {
+  beforeEach(() => {
+    vi.stubEnv("BOLT_PROVIDER_ORDER", "");
+    vi.stubEnv("BOLT_PRESET", "auto");
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    vi.stubEnv("GROQ_API_KEY", "");
+    vi.stubEnv("MISTRAL_API_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("traces preset source, capability and breaker filtering, tools and detected keys", async () => {
+    const store = new InMemoryBreakerStore();
+    await store.set("openai:gpt-4o", { status: "open", failures: 3, openUntil: Date.now() + 60_000, probes: 0, successes: 0 });
+    const tools = new Registry();
+    tools.register({ id: "kb.lookup", async run() { return "ok"; } });
+    const router = createAppRouter({
+      providers: [
+        makeProvider("groq:llama", ["text"]),
+        makeProvider("openai:gpt-4o", ["text", "json"]),
+        makeProvider("mistral:large", ["text", "json"]),
+      ],
+      memory: new InMemoryStore(),
+      circuitBreaker: { failureThreshold: 3, cooldownMs: 60_000, store },
+      tools,
+    });
+    router.registerAgents({ a: { ...agent, capabilities: ["json"], tools: ["kb.lookup", "http.fetch"] } });
+
+    const explanation = await router.explain({ agentId: "a", input: { question: "my tax return", __bolt: { budget: { maxTokens: 100 } } } });
+
+    expect(explanation).toMatchObject({
+      ok: true,
+      provider: "mistral:large",
+      providerReason: "preset 'strict'",
+      providers: ["openai:gpt-4o", "mistral:large", "groq:llama"],
+      hints: ["budget"],
+      preset: { preset: "strict", source: "auto", autoFrom: "env", classification: { preset: "strict", source: "regex" } },
+      orderSource: "preset",
+      requiredCapabilities: ["json"],
+      candidates: [
+        { id: "openai:gpt-4o", missingCapabilities: [], breaker: "open", eligible: false },
+        { id: "mistral:large", missingCapabilities: [], breaker: "closed", eligible: true },
+        { id: "groq:llama", missingCapabilities: ["json"], breaker: "closed", eligible: false },
+      ],
+      eligibleProviders: ["mistral:large"],
+      agentTools: { declared: ["kb.lookup", "http.fetch"], available: ["kb.lookup"], missing: ["http.fetch"] },
+    });
+    expect(explanation.env).toMatchObject({
+      OPENAI_API_KEY: true,
+      GROQ_API_KEY: false,
+      GEMINI_API_KEY: false,
+      MISTRAL_API_KEY: false,
+    });
+  });
+
+  it("reports a hint preset and an unroutable agent", async () => {
+    const router = createAppRouter({ providers: [makeProvider("groq:llama", ["text"])], memory: new InMemoryStore() });
+    router.registerAgents({ a: { ...agent, capabilities: ["vision"] } });
+
+    await expect(router.explain({ agentId: "a", input: { __bolt: { policy: "cheap" } } })).resolves.toMatchObject({
+      ok: false,
+      reason: "no eligible provider for capabilities: vision",
+      provider: "none",
+      preset: { preset: "cheap", source: "hint" },
+      eligibleProviders: [],
+    });
+  });
+});
@@ -137,3 +137,295 @@ describe("runPlan budgets", () => {
     ).rejects.toThrow(/cost/i);
   });
 });
+
+describe("runPlan step timeouts", () => {
+  it("aborts timed-out steps, emits step:timeout and retries with a fresh signal", async () => {
+    const signals: AbortSignal[] = [];
+    const router = {
+      route: ({ signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        if (signals.length > 1) return Promise.resolve("second try");
+        // Never settles on its own; only the step signal ends it.
+        return new Promise(() => {});
+      },
+    };
+    const events: any[] = [];
+    const plan: Plan = {
+      id: "timeouts",
+      steps: [{ id: "s1", kind: "model", agent: "a", timeoutMs: 20, guard: { retry: { max: 1, backoffMs: 1 } } }],
+      outputs: ["s1"],
+    };
+
+    const result = await runPlan(router as any, plan, { taskId: "t6", agentId: "a", input: "hi" }, {
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.outputs).toEqual({ s1: "second try" });
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason).toMatchObject({ code: "STEP_TIMEOUT" });
+    expect(signals[1].aborted).toBe(false);
+    expect(events.map((e) => e.type)).toEqual(["plan", "step:start", "step:timeout", "step:retry", "step:start", "step:done", "done"]);
+    expect(events[2]).toMatchObject({ stepId: "s1", attempt: 0, timeoutMs: 20 });
+  });
+
+  it("applies stepTimeoutMs to tools and cancels them with the run signal", async () => {
+    const seen: AbortSignal[] = [];
+    const slow = (_args: unknown, ctx: { signal?: AbortSignal | null }) => {
+      seen.push(ctx.signal!);
+      return new Promise((resolve) => setTimeout(() => resolve("late"), 1000));
+    };
+    const plan: Plan = { id: "tool-timeout", steps: [{ id: "slow", kind: "tool", toolId: "slow" }], outputs: ["slow"] };
+
+    await expect(
+      runPlan(makeRouter("ok") as any, plan, { taskId: "t7", agentId: "a", input: "hi", tools: { slow } }, { stepTimeoutMs: 20 })
+    ).rejects.toMatchObject({ code: "STEP_TIMEOUT", message: "Step 'slow' timed out after 20ms" });
+    expect(seen[0].aborted).toBe(true);
+
+    const controller = new AbortController();
+    const running = runPlan(makeRouter("ok") as any, plan, {
+      taskId: "t8",
+      agentId: "a",
+      input: "hi",
+      tools: { slow },
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(running).rejects.toMatchObject({ code: "ABORTED" });
+    expect(seen[1].aborted).toBe(true);
+  });
+});
+
+describe("runPlan dag mode", () => {
+  const tracingRouter = () => {
+    const log: string[] = [];
+    let active = 0;
+    let peak = 0;
+    return {
+      log,
+      peak: () => peak,
+      router: {
+        route: async ({ agentId, input }: { agentId: string; input: unknown }) => {
+          log.push(`start:${agentId}`);
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((r) => setTimeout(r, 10));
+          active--;
+          log.push(`end:${agentId}`);
+          return `${agentId}(${JSON.stringify(input)})`;
+        },
+      },
+    };
+  };
+
+  const plan: Plan = {
+    id: "dag",
+    steps: [
+      { id: "a", kind: "model", agent: "a" },
+      { id: "b", kind: "model", agent: "b" },
+      { id: "list", kind: "tool", toolId: "list", args: { from: "${a}" } },
+      { id: "each", kind: "map", itemsFrom: "list", fromItemAsInput: true, child: { kind: "model", agent: "item" } },
+      { id: "check", kind: "branch", branches: [{ when: { truthy: "b" }, then: ["fix"] }] },
+      { id: "fix", kind: "model", agent: "fix", inputFrom: ["each"] },
+      { id: "synth", kind: "model", agent: "synth", inputFrom: ["fix", "b"] },
+    ],
+    outputs: ["each", "synth"],
+  };
+  const tools = { list: async (args: { from: string }) => [args.from.length, 2] };
+
+  it("runs ready steps concurrently and matches sequential outputs", async () => {
+    const sequential = tracingRouter();
+    const expected = await runPlan(sequential.router as any, plan, { taskId: "t9", agentId: "a", input: "hi", tools });
+    expect(sequential.log.slice(0, 3)).toEqual(["start:a", "end:a", "start:b"]);
+
+    const dag = tracingRouter();
+    const result = await runPlan(dag.router as any, plan, { taskId: "t9", agentId: "a", input: "hi", tools }, { mode: "dag" });
+
+    expect(result).toEqual(expected);
+    expect(dag.log.slice(0, 2)).toEqual(["start:a", "start:b"]);
+    expect(dag.log.indexOf("start:fix")).toBeGreaterThan(dag.log.lastIndexOf("end:item"));
+    expect(dag.log.indexOf("start:synth")).toBeGreaterThan(dag.log.indexOf("end:fix"));
+  });
+
+  it("respects maxConcurrency in nested steps and rejects cycles before running anything", async () => {
+    const wide = tracingRouter();
+    const fanout: Plan = {
+      id: "wide",
+      steps: ["a", "b", "c", "d"].map((id) => ({ id, kind: "model" as const, agent: id })),
+      outputs: ["a", "d"],
+    };
+    await runPlan(wide.router as any, fanout, { taskId: "t10", agentId: "a", input: "hi" }, { mode: "dag", maxConcurrency: 2 });
+    expect(wide.peak()).toBe(2);
+
+    const nested = tracingRouter();
+    const fanIn: Plan = {
+      id: "nested",
+      steps: [
+        { id: "list", kind: "tool", toolId: "list", args: {} },
+        { id: "m1", kind: "map", itemsFrom: "list", fromItemAsInput: true, child: { kind: "model", agent: "one" } },
+        { id: "m2", kind: "map", itemsFrom: "list", fromItemAsInput: true, child: { kind: "model", agent: "two" } },
+        { id: "check", kind: "branch", branches: [{ when: { truthy: "list" }, then: ["fix"] }] },
+        { id: "fix", kind: "model", agent: "fix" },
+      ],
+      outputs: ["m1", "m2", "fix"],
+    };
+    await runPlan(
+      nested.router as any,
+      fanIn,
+      { taskId: "t12", agentId: "a", input: "hi", tools: { list: async () => [1, 2, 3] } },
+      { mode: "dag", maxConcurrency: 2 }
+    );
+    expect(nested.log.filter((entry) => entry.startsWith("start:"))).toHaveLength(7);
+    expect(nested.peak()).toBe(2);
+
+    const cyclic = tracingRouter();
+    const loop: Plan = {
+      id: "cyclic",
+      steps: [
+        { id: "x", kind: "model", agent: "x", inputFrom: ["z"] },
+        { id: "y", kind: "tool", toolId: "t", args: { v: { var: "x.value" } } },
+        { id: "z", kind: "model", agent: "z", inputFrom: ["y"] },
+      ],
+      outputs: ["z"],
+    };
+    await expect(
+      runPlan(cyclic.router as any, loop, { taskId: "t11", agentId: "a", input: "hi" }, { mode: "dag" })
+    ).rejects.toMatchObject({ code: "PLAN_CYCLE", message: "Plan 'cyclic' has a dependency cycle: x -> z -> y -> x" });
+    expect(cyclic.log).toEqual([]);
+  });
+});
+
+describe("runPlan nested composition", () => {
+  const echoRouter = {
+    route: async ({ agentId, input }: { agentId: string; input: unknown }) => `${agentId}(${JSON.stringify(input)})`,
+  };
+
+  it("runs map bodies as sub-plans with item, index and outer outputs in scope", async () => {
+    const calls: any[] = [];
+    const tools = {
+      urls: async () => [{ url: "a", deep: true }, { url: "b", deep: false }],
+      fetch: async (args: any) => {
+        calls.push(args);
+        return `body of ${args.url}`;
+      },
+    };
+    const plan: Plan = {
+      id: "nested-map",
+      steps: [
+        { id: "prep", kind: "model", agent: "prep" },
+        { id: "list", kind: "tool", toolId: "urls" },
+        {
+          id: "each",
+          kind: "map",
+          itemsFrom: "list",
+          fromItemAsInput: true,
+          steps: [
+            { id: "fetch", kind: "tool", toolId: "fetch", args: { url: "${item.url}", n: "${index}", ctx: "${prep}" } },
+            { id: "deep", kind: "branch", branches: [{ when: "item.deep", then: ["both"] }], else: ["skim"] },
+            { id: "both", kind: "parallel", children: ["sum", "tags"] },
+            { id: "sum", kind: "model", agent: "sum", inputFrom: ["fetch"] },
+            { id: "tags", kind: "model", agent: "tags" },
+            { id: "skim", kind: "model", agent: "skim", inputFrom: ["fetch"] },
+          ],
+        },
+        { id: "picked", kind: "map", itemsFrom: "list", steps: [{ id: "u", kind: "tool", toolId: "fetch", args: { url: "${item.url}" } }], output: "u" },
+      ],
+      outputs: ["each", "picked"],
+    };
+
+    const events: any[] = [];
+    const result = await runPlan(echoRouter as any, plan, { taskId: "t12", agentId: "a", input: "hi", tools }, {
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(calls[0]).toEqual({ url: "a", n: 0, ctx: 'prep("hi")' });
+    expect(result.outputs.each).toEqual([
+      { fetch: "body of a", sum: 'sum("body of a")', tags: 'tags({"url":"a","deep":true})' },
+      { fetch: "body of b", skim: 'skim("body of b")' },
+    ]);
+    expect(result.outputs.picked).toEqual(["body of a", "body of b"]);
+    expect(events.some((e) => e.type === "step:done" && e.stepId === "each:1:skim")).toBe(true);
+  });
+
+  it("lets parallel groups hold maps and branches, in both modes", async () => {
+    const plan: Plan = {
+      id: "nested-parallel",
+      steps: [
+        { id: "list", kind: "tool", toolId: "list" },
+        { id: "fan", kind: "parallel", children: ["perItem", "route"] },
+        { id: "perItem", kind: "map", itemsFrom: "list", fromItemAsInput: true, child: { kind: "model", agent: "item" } },
+        { id: "route", kind: "branch", branches: [{ when: { gt: { left: { var: "list.length" }, right: 1 } }, then: ["inner"] }] },
+        { id: "inner", kind: "parallel", children: ["x", "y"] },
+        { id: "x", kind: "model", agent: "x" },
+        { id: "y", kind: "model", agent: "y", inputFrom: ["x"] },
+        { id: "final", kind: "model", agent: "final", inputFrom: ["perItem"] },
+      ],
+      outputs: ["perItem", "y", "final"],
+    };
+    const tools = { list: async () => [1, 2] };
+    const ctx = { taskId: "t13", agentId: "a", input: "hi", tools };
+
+    const sequential = await runPlan(echoRouter as any, plan, ctx);
+    expect(sequential.outputs.perItem).toEqual(["item(1)", "item(2)"]);
+    expect(sequential.outputs.final).toBe('final(["item(1)","item(2)"])');
+    await expect(runPlan(echoRouter as any, plan, ctx, { mode: "dag" })).resolves.toEqual(sequential);
+
+    const selfNested: Plan = {
+      id: "self",
+      steps: [
+        { id: "start", kind: "parallel", children: ["p"] },
+        { id: "p", kind: "branch", branches: [], else: ["q"] },
+        { id: "q", kind: "parallel", children: ["p"] },
+      ],
+      outputs: [],
+    };
+    await expect(runPlan(echoRouter as any, selfNested, ctx)).rejects.toThrow("Step 'p' is nested inside itself");
+  });
+});
+
+describe("runPlan loops", () => {
+  it("repeats the body until the condition holds and keeps per-iteration history", async () => {
+    let round = 0;
+    const tools = {
+      search: async (args: any) => `results for ${args.q} (${args.feedback ?? "none"})`,
+      critic: async () => {
+        round += 1;
+        return { sufficient: round >= 2, note: `note ${round}` };
+      },
+      report: async (args: any) => args,
+    };
+    const plan: Plan = {
+      id: "loop",
+      steps: [
+        { id: "research", kind: "loop", body: ["search", "critic"], until: "critic.sufficient", maxIterations: 4 },
+        { id: "search", kind: "tool", toolId: "search", args: { q: "bolt", feedback: "${critic.note}" } },
+        { id: "critic", kind: "tool", toolId: "critic", inputFrom: ["search"] },
+        { id: "report", kind: "tool", toolId: "report", args: { first: "${research[0].critic.note}", last: "${critic.note}" } },
+      ],
+      outputs: ["research", "report"],
+    };
+
+    const events: any[] = [];
+    const ctx = { taskId: "t14", agentId: "a", input: "hi", tools };
+    const result = await runPlan(makeRouter(null) as any, plan, ctx, { onEvent: (e) => events.push(e) });
+
+    expect(result.outputs.research).toEqual([
+      { search: "results for bolt (none)", critic: { sufficient: false, note: "note 1" } },
+      { search: "results for bolt (note 1)", critic: { sufficient: true, note: "note 2" } },
+    ]);
+    expect(result.outputs.report).toEqual({ first: "note 1", last: "note 2" });
+    expect(events.filter((e) => e.type.startsWith("loop:"))).toEqual([
+      { type: "loop:iteration", stepId: "research", iteration: 0 },
+      { type: "loop:iteration", stepId: "research", iteration: 1 },
+      { type: "loop:done", stepId: "research", iteration: 2, reason: "until" },
+    ]);
+    expect(events.some((e) => e.type === "step:done" && e.stepId === "research:1:critic")).toBe(true);
+
+    round = -10;
+    const dag = await runPlan(makeRouter(null) as any, { ...plan, steps: plan.steps.map((s) => (s.id === "research" ? { ...s, maxIterations: 3 } : s)) }, ctx, {
+      mode: "dag",
+      onEvent: (e) => events.push(e),
+    });
+    expect(dag.outputs.research).toHaveLength(3);
+    expect(events.filter((e) => e.type === "loop:done").at(-1)).toMatchObject({ iteration: 3, reason: "maxIterations" });
+  });
+});
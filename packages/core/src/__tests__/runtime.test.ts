@@ -348,4 +348,339 @@ describe("BoltRuntime", () => {
     expect(model.call).toHaveBeenCalledTimes(2);
     expect(toolRun).toHaveBeenCalledTimes(1);
   });
+
+  it("aborts in-flight streaming provider calls with a typed ABORTED error", async () => {
+    const controller = new AbortController();
+    let seenSignal: AbortSignal | undefined;
+    const model = {
+      id: "streaming",
+      supports: ["text"],
+      call: vi.fn(async (args) => {
+        seenSignal = args.signal;
+        args.onToken?.("hel");
+        controller.abort();
+        return new Promise(() => {});
+      }),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [echoAgent("streamer")],
+    });
+
+    const result = await runtime.run("streamer", "hi", {
+      signal: controller.signal,
+      onToken: () => {},
+      throwOnError: false,
+    });
+
+    expect(seenSignal).toBe(controller.signal);
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe("ABORTED");
+  });
+
+  it("does not call providers or tools once the run signal is aborted", async () => {
+    const controller = new AbortController();
+    const toolRun = vi.fn(async (_args, ctx) => {
+      controller.abort();
+      return { aborted: ctx.signal?.aborted };
+    });
+    const model = {
+      id: "native-tools",
+      supports: ["text"],
+      call: vi.fn(async () => ({
+        toolCalls: [
+          { id: "call-1", toolId: "allowed.echo", args: {} },
+          { id: "call-2", toolId: "allowed.echo", args: {} },
+        ],
+      })),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [{ ...echoAgent("native-agent"), tools: ["allowed.echo"] }],
+      tools: [{ id: "allowed.echo", run: toolRun }],
+    });
+
+    await expect(runtime.run("native-agent", "hi", { signal: controller.signal })).rejects.toMatchObject({
+      code: "ABORTED",
+    });
+    expect(toolRun).toHaveBeenCalledTimes(1);
+    expect(toolRun).toHaveBeenCalledWith({}, expect.objectContaining({ signal: controller.signal }));
+    expect(model.call).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs a turn's tool calls in parallel and keeps result order", async () => {
+    let active = 0;
+    let peak = 0;
+    const slowTool = (id: string, ms: number) => ({
+      id,
+      async run() {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        active -= 1;
+        return id;
+      },
+    });
+    const model = {
+      id: "parallel-tools",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({
+          toolCalls: [
+            { id: "c1", toolId: "slow.a", args: {} },
+            { id: "c2", toolId: "slow.b", args: {} },
+          ],
+        })
+        .mockResolvedValueOnce({ output: "done" }),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [{ ...echoAgent("parallel"), tools: ["slow.a", "slow.b"] }],
+      tools: [slowTool("slow.a", 20), slowTool("slow.b", 5)],
+      toolCalls: { concurrency: 2 },
+    });
+
+    await expect(runtime.run("parallel", "hi")).resolves.toMatchObject({ ok: true, output: "done" });
+    expect(peak).toBe(2);
+    expect(model.call).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        toolResults: [
+          { id: "c1", toolId: "slow.a", output: "slow.a" },
+          { id: "c2", toolId: "slow.b", output: "slow.b" },
+        ],
+      })
+    );
+  });
+
+  it("returns invalid arguments and timeouts to the model as isError tool results", async () => {
+    let toolSignal: AbortSignal | undefined;
+    const model = {
+      id: "tool-errors",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({
+          toolCalls: [
+            { id: "c1", toolId: "lookup", args: { topic: 42 } },
+            { id: "c2", toolId: "hang", args: {} },
+          ],
+        })
+        .mockResolvedValueOnce({ output: "recovered" }),
+    } as unknown as ModelProvider;
+    const lookup = vi.fn(async () => "found");
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [{ ...echoAgent("recover"), tools: ["lookup", "hang"] }],
+      tools: [
+        {
+          id: "lookup",
+          schema: { type: "object", required: ["topic"], properties: { topic: { type: "string" } } },
+          run: lookup,
+        },
+        {
+          id: "hang",
+          timeoutMs: 10,
+          run: (_args, ctx) => {
+            toolSignal = ctx.signal;
+            return new Promise(() => {});
+          },
+        },
+      ],
+      toolCalls: { returnErrors: true },
+    });
+
+    await expect(runtime.run("recover", "hi")).resolves.toMatchObject({ ok: true, output: "recovered" });
+    expect(lookup).not.toHaveBeenCalled();
+    expect(toolSignal?.aborted).toBe(true);
+    expect(model.call).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        toolResults: [
+          { id: "c1", toolId: "lookup", output: { error: "Invalid arguments for tool 'lookup'" }, isError: true },
+          { id: "c2", toolId: "hang", output: { error: "Tool 'hang' timed out after 10ms" }, isError: true },
+        ],
+      })
+    );
+  });
+
+  it("fails the run with a typed error when tool errors are not returned to the model", async () => {
+    const model = {
+      id: "tool-timeout",
+      supports: ["text"],
+      call: vi.fn().mockResolvedValueOnce({ toolCalls: [{ id: "c1", toolId: "hang", args: {} }] }),
+    } as unknown as ModelProvider;
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [{ ...echoAgent("strict"), tools: ["hang"] }],
+      tools: [{ id: "hang", run: () => new Promise(() => {}) }],
+      toolCalls: { timeoutMs: 10 },
+    });
+
+    await expect(runtime.run("strict", "hi", { throwOnError: false })).resolves.toMatchObject({
+      ok: false,
+      error: { code: "TOOL_TIMEOUT" },
+    });
+  });
+
+  it("emits tool:call events for provider and agent tool calls with redacted argument previews", async () => {
+    const model = {
+      id: "traced-tools",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({
+          toolCalls: [
+            { id: "c1", toolId: "mailer", args: { to: "ada@example.com" } },
+            { id: "c2", toolId: "broken", args: {} },
+          ],
+        })
+        .mockResolvedValueOnce({ output: "sent" }),
+    } as unknown as ModelProvider;
+    const agent: Agent = {
+      id: "traced",
+      capabilities: ["text"],
+      tools: ["mailer", "broken"],
+      async run({ call, tools }) {
+        await tools.get("mailer")?.run({ to: "ops" }, {});
+        return call({ kind: "text", prompt: "notify" });
+      },
+    };
+    const runtime = createRuntime({
+      providers: [model],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      tools: [
+        { id: "mailer", run: async () => "queued" },
+        {
+          id: "broken",
+          run: async () => {
+            throw new Error("smtp down");
+          },
+        },
+      ],
+      redaction: { enabled: true, emails: true },
+      toolCalls: { returnErrors: true },
+    });
+    const events: any[] = [];
+    runtime.router.events.subscribe((e) => events.push(e));
+
+    await runtime.run("traced", "hi");
+    const toolEvents = events.filter((e) => e.type.startsWith("tool:call:"));
+
+    expect(toolEvents).toContainEqual({
+      type: "tool:call:start",
+      id: expect.any(String),
+      toolId: "mailer",
+      source: "agent",
+      argsPreview: '{"to":"ops"}',
+    });
+    expect(toolEvents).toContainEqual({
+      type: "tool:call:start",
+      id: expect.any(String),
+      toolId: "mailer",
+      source: "provider",
+      toolCallId: "c1",
+      iteration: 0,
+      argsPreview: '{"to":"[REDACTED]"}',
+    });
+    expect(toolEvents).toContainEqual(
+      expect.objectContaining({ type: "tool:call:end", toolCallId: "c1", outputPreview: "queued", ms: expect.any(Number) })
+    );
+    expect(toolEvents).toContainEqual(
+      expect.objectContaining({ type: "tool:call:error", toolId: "broken", toolCallId: "c2", message: "smtp down" })
+    );
+  });
+
+  it("reports tokens, cost, failures and tool iterations in result usage", async () => {
+    const flaky = {
+      id: "flaky",
+      supports: ["text"],
+      call: vi.fn(async () => {
+        throw Object.assign(new Error("unavailable"), { status: 503 });
+      }),
+    } as unknown as ModelProvider;
+    const model = {
+      id: "main",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({
+          toolCalls: [{ id: "c1", toolId: "lookup", args: {} }],
+          tokens: 30,
+          promptTokens: 20,
+          completionTokens: 10,
+        })
+        .mockResolvedValueOnce({ output: "done", tokens: 50, promptTokens: 45, completionTokens: 5 }),
+      estimateCost: ({ tokens }: { tokens?: number }) => (tokens ?? 0) * 0.001,
+    } as unknown as ModelProvider;
+    const agent: Agent = { ...echoAgent("usage"), tools: ["lookup"] };
+    const runtime = createRuntime({
+      providers: [flaky, model],
+      memory: new InMemoryStore(),
+      agents: [agent],
+      tools: [{ id: "lookup", run: async () => "found" }],
+      failover: true,
+    });
+
+    const result = await runtime.run("usage", "hi");
+
+    expect(result.usage).toMatchObject({
+      servedBy: ["main"],
+      calls: 2,
+      promptTokens: 65,
+      completionTokens: 15,
+      totalTokens: 80,
+      toolIterations: 1,
+      toolCalls: 1,
+      estimatedTokens: false,
+      providers: {
+        // Each tool-loop turn starts on the preferred provider again.
+        flaky: { calls: 0, failures: 2 },
+        main: { calls: 2, failures: 0, promptTokens: 65, completionTokens: 15, totalTokens: 80 },
+      },
+    });
+    expect(result.usage?.costUSD).toBeCloseTo(0.08);
+    expect(result.usage?.latencyMs).toEqual(expect.any(Number));
+  });
+
+  it("attaches usage to failed results and estimates tokens providers do not report", async () => {
+    const model = {
+      id: "main",
+      supports: ["text"],
+      call: vi
+        .fn()
+        .mockResolvedValueOnce({ output: "first" })
+        .mockRejectedValueOnce(new Error("bad request")),
+    } as unknown as ModelProvider;
+    const agent: Agent = {
+      id: "twice",
+      capabilities: ["text"],
+      async run({ call }) {
+        await call({ kind: "text", prompt: "12345678" });
+        return call({ kind: "text", prompt: "again" });
+      },
+    };
+    const runtime = createRuntime({ providers: [model], memory: new InMemoryStore(), agents: [agent] });
+
+    const result = await runtime.run("twice", "hi", { throwOnError: false });
+
+    expect(result.ok).toBe(false);
+    expect(result.usage).toMatchObject({
+      servedBy: ["main"],
+      calls: 1,
+      promptTokens: 2,
+      estimatedTokens: true,
+      providers: { main: { calls: 1, failures: 1 } },
+    });
+    await expect(runtime.run("missing", "hi", { throwOnError: false })).resolves.toMatchObject({
+      usage: { calls: 0, costUSD: 0, servedBy: [] },
+    });
+  });
 });
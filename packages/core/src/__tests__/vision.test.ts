@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { createRuntime, InMemoryStore } from "@bolt-ai/core";
+import type { Agent, Capability, ModelProvider } from "@bolt-ai/core";
+
+function makeProvider(id: string, supports: Capability[]) {
+  return {
+    id,
+    supports,
+    call: vi.fn(async () => ({ output: `seen by ${id}` })),
+  } as unknown as ModelProvider;
+}
+
+// Forwards image parts from its input on a single user turn.
+const looker: Agent = {
+  id: "looker",
+  capabilities: ["text"],
+  async run({ input, call }) {
+    const images = Array.isArray(input) ? input : [];
+    return call({ kind: "text", prompt: "Describe", messages: [{ role: "user", content: "Describe", images }] });
+  },
+};
+
+describe("Vision inputs", () => {
+  it("routes image input to a vision provider and reads file paths as base64", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "bolt-vision-"));
+    const file = path.join(dir, "cat.jpg");
+    await fs.writeFile(file, "cat");
+    const text = makeProvider("text", ["text"]);
+    const vision = makeProvider("vision", ["text", "vision"]);
+    const runtime = createRuntime({ providers: [text, vision], memory: new InMemoryStore(), agents: [looker] });
+
+    const result = await runtime.run("looker", [{ type: "image", path: file }]);
+
+    expect(result.output).toBe("seen by vision");
+    expect(text.call).not.toHaveBeenCalled();
+    expect((vision.call as any).mock.calls[0][0].messages[0].images).toEqual([
+      { type: "image", data: Buffer.from("cat").toString("base64"), mimeType: "image/jpeg" },
+    ]);
+  });
+
+  it("skips providers without vision for calls that carry images", async () => {
+    const text = makeProvider("text", ["text"]);
+    const vision = makeProvider("vision", ["text", "vision"]);
+    const agent: Agent = {
+      id: "caller",
+      capabilities: ["text"],
+      async run({ call }) {
+        const plain = await call({ kind: "text", prompt: "hi" });
+        const seen = await call({ kind: "text", prompt: "look", images: [{ type: "image", url: "https://img.test/a.png" }] });
+        return [plain, seen];
+      },
+    };
+    const runtime = createRuntime({ providers: [text, vision], memory: new InMemoryStore(), agents: [agent] });
+
+    await expect(runtime.run("caller", "go")).resolves.toMatchObject({ output: ["seen by text", "seen by vision"] });
+  });
+
+  it("fails with NO_PROVIDER when no provider supports vision", async () => {
+    const runtime = createRuntime({
+      providers: [makeProvider("text", ["text"])],
+      memory: new InMemoryStore(),
+      agents: [looker],
+    });
+
+    await expect(
+      runtime.run("looker", [{ type: "image", url: "https://img.test/a.png" }], { throwOnError: false })
+    ).resolves.toMatchObject({ ok: false, error: { code: "NO_PROVIDER" } });
+  });
+});
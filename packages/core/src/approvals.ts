@@ -0,0 +1,55 @@
+// packages/core/src/approvals.ts
+import type { ProviderResult, ProviderToolResult, Tool } from './types';
+
+/** What a reviewer decided for one tool call; `approve` may replace the arguments. */
+export type ToolApprovalDecision =
+  | { action: 'approve'; args?: unknown }
+  | { action: 'deny'; reason?: string }
+  | { action: 'suspend' };
+
+export interface ToolApprovalRequest {
+  runId: string;
+  agentId: string;
+  toolCallId: string;
+  toolId: string;
+  args: unknown;
+}
+
+/** Sync or async reviewer hook; return `{ action: 'suspend' }` to park the run for later review. */
+export type ApproveToolCall = (
+  request: ToolApprovalRequest
+) => ToolApprovalDecision | Promise<ToolApprovalDecision>;
+
+export interface PendingToolApproval {
+  toolCallId: string;
+  toolId: string;
+  args: unknown;
+}
+
+/** Provider and tool results recorded so a resumed run replays them instead of calling again. */
+export interface RunJournal {
+  providerResults: ProviderResult[];
+  /** Keyed by `${providerCallIndex}:${toolCallIndex}` */
+  toolResults: Record<string, ProviderToolResult>;
+}
+
+/** A run parked on pending approvals; persisted in the router's MemoryStore until resumed. */
+export interface SuspendedRun {
+  id: string;
+  agentId: string;
+  input: unknown;
+  memoryScope?: string;
+  tenantId?: string;
+  pending: PendingToolApproval[];
+  journal: RunJournal;
+  suspendedAt: number;
+}
+
+export function suspendedRunKey(runId: string) {
+  return `bolt:suspended:${runId}`;
+}
+
+export function toolRequiresApproval(tool: Tool, args: unknown): boolean {
+  const flag = tool.requiresApproval;
+  return typeof flag === 'function' ? Boolean(flag(args)) : flag === true;
+}
@@ -0,0 +1,249 @@
+// packages/core/src/breaker.ts
+import type { TraceEvent } from './events';
+import type { RouterPlugin } from './plugins';
+import type { MemoryStore } from './types';
+
+export type BreakerStatus = 'closed' | 'open' | 'half-open';
+
+export interface BreakerState {
+  status: BreakerStatus;
+  /** Consecutive failures while closed */
+  failures: number;
+  /** When the breaker may move from open to half-open */
+  openUntil?: number;
+  /** When the breaker entered half-open (stale probe slots are released after cooldownMs) */
+  halfOpenAt?: number;
+  /** In-flight probe calls while half-open */
+  probes: number;
+  /** Successful probes while half-open */
+  successes: number;
+  /** Rolling outcomes (only kept when a failure-rate window is configured) */
+  window?: { at: number; ok: boolean }[];
+}
+
+/** Pluggable persistence so several processes can share breaker state (e.g., via Redis). */
+export interface BreakerStateStore {
+  get(providerId: string): Promise<BreakerState | null>;
+  set(providerId: string, state: BreakerState): Promise<void>;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker */
+  failureThreshold: number;
+  /** How long the breaker stays open before letting probes through */
+  cooldownMs: number;
+  /** Concurrent probe calls allowed while half-open (default: 1) */
+  halfOpenMaxProbes?: number;
+  /** Successful probes needed to close the breaker again (default: 1) */
+  successThreshold?: number;
+  /** Optional rolling-window failure-rate threshold (0..1) */
+  window?: { sizeMs: number; failureRate: number; minRequests?: number };
+  /** State store (default: in-process) */
+  store?: BreakerStateStore;
+}
+
+export type BreakerTransition =
+  | { to: 'open'; failures: number; openUntil: number; reason: 'threshold' | 'failure-rate' | 'probe-failed' }
+  | { to: 'half-open' }
+  | { to: 'closed' };
+
+export class InMemoryBreakerStore implements BreakerStateStore {
+  private map = new Map<string, BreakerState>();
+  async get(providerId: string) {
+    const state = this.map.get(providerId);
+    return state ? { ...state, window: state.window ? [...state.window] : undefined } : null;
+  }
+  async set(providerId: string, state: BreakerState) {
+    this.map.set(providerId, state);
+  }
+}
+
+/** Persists breaker state through any MemoryStore (use a Redis-backed store to share across processes). */
+export class MemoryStoreBreakerStore implements BreakerStateStore {
+  constructor(private memory: MemoryStore, private namespace = 'bolt:breaker') {}
+  async get(providerId: string) {
+    return this.memory.get<BreakerState>(`${this.namespace}:${providerId}`);
+  }
+  async set(providerId: string, state: BreakerState) {
+    await this.memory.set(`${this.namespace}:${providerId}`, state);
+  }
+}
+
+const MAX_WINDOW_ENTRIES = 200;
+
+function closedState(): BreakerState {
+  return { status: 'closed', failures: 0, probes: 0, successes: 0 };
+}
+
+/** Closed/open/half-open circuit breaker keyed by provider id. */
+export class CircuitBreaker {
+  readonly store: BreakerStateStore;
+  private maxProbes: number;
+  private successThreshold: number;
+
+  constructor(private options: CircuitBreakerOptions) {
+    this.store = options.store ?? new InMemoryBreakerStore();
+    this.maxProbes = Math.max(1, Math.floor(options.halfOpenMaxProbes ?? 1));
+    this.successThreshold = Math.max(1, Math.floor(options.successThreshold ?? 1));
+  }
+
+  async state(providerId: string): Promise<BreakerState> {
+    return (await this.store.get(providerId)) ?? closedState();
+  }
+
+  /** Read-only check used when ordering candidates: would a call be let through right now? */
+  async canRequest(providerId: string, now = Date.now()): Promise<boolean> {
+    const state = await this.state(providerId);
+    if (state.status === 'closed') return true;
+    if (state.status === 'open') return now >= (state.openUntil ?? 0);
+    return state.probes < this.maxProbes || this.probesStale(state, now);
+  }
+
+  /**
+   * Reserve the right to call a provider. Moves open -> half-open once the cooldown elapsed
+   * and counts probe slots while half-open.
+   */
+  async acquire(
+    providerId: string,
+    now = Date.now()
+  ): Promise<{ allowed: boolean; transition?: BreakerTransition }> {
+    const state = await this.state(providerId);
+    if (state.status === 'closed') return { allowed: true };
+
+    if (state.status === 'open') {
+      if (now < (state.openUntil ?? 0)) return { allowed: false };
+      await this.store.set(providerId, {
+        ...state,
+        status: 'half-open',
+        halfOpenAt: now,
+        probes: 1,
+        successes: 0,
+      });
+      return { allowed: true, transition: { to: 'half-open' } };
+    }
+
+    const stale = this.probesStale(state, now);
+    if (!stale && state.probes >= this.maxProbes) return { allowed: false };
+    await this.store.set(providerId, {
+      ...state,
+      halfOpenAt: stale ? now : state.halfOpenAt,
+      probes: (stale ? 0 : state.probes) + 1,
+    });
+    return { allowed: true };
+  }
+
+  /** Give back a slot taken by `acquire` when the provider ends up not being called (downgrade, spillover, lost hedge). */
+  async release(providerId: string): Promise<void> {
+    const state = await this.store.get(providerId);
+    if (state?.status !== 'half-open' || state.probes <= 0) return;
+    await this.store.set(providerId, { ...state, probes: state.probes - 1 });
+  }
+
+  async recordSuccess(providerId: string, now = Date.now()): Promise<BreakerTransition | undefined> {
+    const state = await this.state(providerId);
+    if (state.status === 'half-open') {
+      const successes = state.successes + 1;
+      if (successes >= this.successThreshold) {
+        await this.store.set(providerId, closedState());
+        return { to: 'closed' };
+      }
+      await this.store.set(providerId, { ...state, successes, probes: Math.max(0, state.probes - 1) });
+      return undefined;
+    }
+    const window = this.pushWindow(state, true, now);
+    // Skip the write (a store round-trip per request) when nothing changed.
+    if (state.status === 'closed' && state.failures === 0 && !window) return undefined;
+    await this.store.set(providerId, { ...state, status: 'closed', failures: 0, window });
+    return undefined;
+  }
+
+  async recordFailure(providerId: string, now = Date.now()): Promise<BreakerTransition | undefined> {
+    const state = await this.state(providerId);
+    const openUntil = now + this.options.cooldownMs;
+
+    if (state.status === 'half-open') {
+      await this.store.set(providerId, {
+        ...closedState(),
+        status: 'open',
+        failures: state.failures + 1,
+        openUntil,
+      });
+      return { to: 'open', failures: state.failures + 1, openUntil, reason: 'probe-failed' };
+    }
+
+    // A late failure from a call started before the breaker opened keeps the current cooldown.
+    if (state.status === 'open') return undefined;
+
+    const failures = state.failures + 1;
+    const window = this.pushWindow(state, false, now);
+    const reason =
+      failures >= this.options.failureThreshold
+        ? 'threshold'
+        : this.failureRateExceeded(window)
+          ? 'failure-rate'
+          : undefined;
+
+    if (reason) {
+      await this.store.set(providerId, { ...closedState(), status: 'open', failures, openUntil });
+      return { to: 'open', failures, openUntil, reason };
+    }
+    await this.store.set(providerId, { ...state, failures, window });
+    return undefined;
+  }
+
+  private probesStale(state: BreakerState, now: number) {
+    return state.halfOpenAt != null && now - state.halfOpenAt >= this.options.cooldownMs;
+  }
+
+  private pushWindow(state: BreakerState, ok: boolean, now: number) {
+    const win = this.options.window;
+    if (!win) return undefined;
+    const entries = (state.window ?? []).filter((e) => now - e.at < win.sizeMs);
+    entries.push({ at: now, ok });
+    return entries.slice(-MAX_WINDOW_ENTRIES);
+  }
+
+  private failureRateExceeded(window?: { at: number; ok: boolean }[]) {
+    const win = this.options.window;
+    if (!win || !window?.length) return false;
+    if (window.length < Math.max(1, win.minRequests ?? 10)) return false;
+    const failed = window.filter((e) => !e.ok).length;
+    return failed / window.length >= win.failureRate;
+  }
+}
+
+/** The `breaker:*` trace event for a state change. */
+export function breakerTransitionEvent(id: string, providerId: string, transition: BreakerTransition): TraceEvent {
+  if (transition.to === 'open') {
+    return {
+      type: 'breaker:open',
+      id,
+      providerId,
+      failures: transition.failures,
+      until: transition.openUntil,
+      reason: transition.reason,
+    };
+  }
+  return transition.to === 'half-open'
+    ? { type: 'breaker:half-open', id, providerId }
+    : { type: 'breaker:close', id, providerId };
+}
+
+/**
+ * Built-in plugin that records route call outcomes on the breaker. Admission (skipping open
+ * providers, half-open probe slots) happens in the router while it orders candidates.
+ */
+export function createBreakerPlugin(breaker: CircuitBreaker, emit: (event: TraceEvent) => void): RouterPlugin {
+  const report = (id: string, providerId: string, transition?: BreakerTransition) => {
+    if (transition) emit(breakerTransitionEvent(id, providerId, transition));
+  };
+  return {
+    name: 'bolt:breaker',
+    async afterProviderCall(_result, ctx) {
+      report(ctx.id, ctx.provider.id, await breaker.recordSuccess(ctx.provider.id));
+    },
+    async onProviderError(_error, ctx) {
+      report(ctx.id, ctx.provider.id, await breaker.recordFailure(ctx.provider.id));
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// packages/core/src/budgets.ts
+import { budgetExceededError } from './errors';
+import type { PluginRouteContext, RouterPlugin } from './plugins';
+import type { Budget } from './types';
+
+function minDefined(a?: number, b?: number): number | undefined {
+  if (a == null) return b;
+  if (b == null) return a;
+  return Math.min(a, b);
+}
+
+/** The tighter limit of each dimension; undefined when neither budget is set. */
+export function mergeBudget(base?: Budget, override?: Budget): Budget | undefined {
+  if (!base && !override) return undefined;
+  return {
+    maxLatencyMs: minDefined(base?.maxLatencyMs, override?.maxLatencyMs),
+    maxCostUSD: minDefined(base?.maxCostUSD, override?.maxCostUSD),
+    maxTokens: minDefined(base?.maxTokens, override?.maxTokens),
+  };
+}
+
+/** What one route has spent against its budget so far. */
+export interface BudgetSpend {
+  startedAt: number;
+  tokens: number;
+  costUSD: number;
+}
+
+export interface BudgetPlugin extends RouterPlugin {
+  /** The route's budget: `RouterOptions.budget` tightened by the `budget` route hint. */
+  budgetFor(ctx: PluginRouteContext): Budget | undefined;
+  spent(ctx: PluginRouteContext): BudgetSpend;
+}
+
+/**
+ * Built-in plugin behind `RouterOptions.budget`: refuses calls whose estimate cannot fit and
+ * fails the route once a finished call crosses a limit. Downgrading to a cheaper candidate is
+ * provider selection, so the router does that before this plugin sees the call.
+ */
+export function createBudgetPlugin(defaults?: Budget): BudgetPlugin {
+  const spends = new WeakMap<object, BudgetSpend>();
+  const budgetFor = (ctx: PluginRouteContext) => mergeBudget(defaults, ctx.hints.budget);
+  const spent = (ctx: PluginRouteContext) => {
+    let spend = spends.get(ctx.state);
+    if (!spend) {
+      spend = { startedAt: Date.now(), tokens: 0, costUSD: 0 };
+      spends.set(ctx.state, spend);
+    }
+    return spend;
+  };
+  const checkLatency = (budget: Budget, spend: BudgetSpend) => {
+    const elapsed = Date.now() - spend.startedAt;
+    if (budget.maxLatencyMs != null && elapsed > budget.maxLatencyMs) {
+      throw budgetExceededError('latency', { spent: elapsed, limit: budget.maxLatencyMs });
+    }
+  };
+
+  return {
+    name: 'bolt:budgets',
+    budgetFor,
+    spent,
+    beforeRoute(ctx) {
+      spends.set(ctx.state, { startedAt: Date.now(), tokens: 0, costUSD: 0 });
+    },
+    beforeProviderCall(_args, ctx) {
+      const budget = budgetFor(ctx);
+      if (!budget) return;
+      const spend = spent(ctx);
+      checkLatency(budget, spend);
+      const { promptTokens, costUSD } = ctx.estimate;
+      if (budget.maxTokens != null && spend.tokens + promptTokens > budget.maxTokens) {
+        throw budgetExceededError('tokens', { spent: spend.tokens, limit: budget.maxTokens, estimated: promptTokens });
+      }
+      if (budget.maxCostUSD != null && costUSD != null && costUSD > budget.maxCostUSD - spend.costUSD) {
+        throw budgetExceededError('cost', { spent: spend.costUSD, limit: budget.maxCostUSD, estimated: costUSD });
+      }
+    },
+    afterProviderCall(_result, ctx) {
+      const spend = spent(ctx);
+      spend.tokens += ctx.usage.tokens;
+      spend.costUSD += ctx.usage.costUSD ?? 0;
+      const budget = budgetFor(ctx);
+      if (!budget) return;
+      if (budget.maxCostUSD != null && spend.costUSD > budget.maxCostUSD) {
+        throw budgetExceededError('cost', { spent: spend.costUSD, limit: budget.maxCostUSD });
+      }
+      if (budget.maxTokens != null && spend.tokens > budget.maxTokens) {
+        throw budgetExceededError('tokens', { spent: spend.tokens, limit: budget.maxTokens });
+      }
+      checkLatency(budget, spend);
+    },
+  };
+}
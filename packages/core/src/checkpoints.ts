@@ -0,0 +1,78 @@
+// packages/core/src/checkpoints.ts
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { CheckpointStore, MemoryStore, PlanCheckpoint } from "./types";
+import { uuid } from "../util/uuid";
+
+const clone = <T>(v: T): T =>
+  typeof structuredClone === "function" ? structuredClone(v) : JSON.parse(JSON.stringify(v));
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private map = new Map<string, PlanCheckpoint>();
+  async load(runId: string) {
+    const cp = this.map.get(runId);
+    return cp ? clone(cp) : null;
+  }
+  async save(checkpoint: PlanCheckpoint) {
+    this.map.set(checkpoint.runId, clone(checkpoint));
+  }
+  async delete(runId: string) {
+    this.map.delete(runId);
+  }
+}
+
+/**
+ * One JSON file per run; writes go through a uniquely named temp file so a crash never leaves
+ * half a checkpoint and concurrent saves never share one.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private dir: string) {}
+
+  private file(runId: string) {
+    return path.join(this.dir, `${encodeURIComponent(runId)}.json`);
+  }
+
+  async load(runId: string) {
+    try {
+      return JSON.parse(await fs.readFile(this.file(runId), "utf8")) as PlanCheckpoint;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async save(checkpoint: PlanCheckpoint) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.file(checkpoint.runId);
+    const tmp = `${target}.${process.pid}.${uuid()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(checkpoint), "utf8");
+    await fs.rename(tmp, target);
+  }
+
+  async delete(runId: string) {
+    await fs.rm(this.file(runId), { force: true });
+  }
+}
+
+/** Checkpoints in any `MemoryStore` (e.g. Redis), under `bolt:checkpoint:<runId>` by default. */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private prefix: string;
+  private ttlSeconds?: number;
+
+  constructor(private memory: MemoryStore, opts: { prefix?: string; ttlSeconds?: number } = {}) {
+    this.prefix = opts.prefix ?? "bolt:checkpoint:";
+    this.ttlSeconds = opts.ttlSeconds;
+  }
+
+  async load(runId: string) {
+    return this.memory.get<PlanCheckpoint>(this.prefix + runId);
+  }
+  async save(checkpoint: PlanCheckpoint) {
+    await this.memory.set(this.prefix + checkpoint.runId, checkpoint, this.ttlSeconds);
+  }
+  /** Stores without `delete` get a null value that expires after a second. */
+  async delete(runId: string) {
+    if (this.memory.delete) await this.memory.delete(this.prefix + runId);
+    else await this.memory.set(this.prefix + runId, null, 1);
+  }
+}
@@ -0,0 +1,172 @@
+// packages/core/src/classifier.ts
+import { createHash } from 'node:crypto';
+import type { Agent, ModelProvider } from './types';
+import { callJsonWithTimeout, extractJsonObject } from '../util/jsonCall';
+
+/** Presets the 'auto' preset resolves to. */
+export type RoutePreset = 'fast' | 'cheap' | 'strict';
+export type SensitivityLabel = 'sensitive' | 'general';
+export type ComplexityLabel = 'simple' | 'complex';
+
+/** How an 'auto' route was classified; recorded on `route:provider.select`. */
+export interface InputClassification {
+  preset: RoutePreset;
+  /** 'llm' (fresh model call), 'cache' (earlier model call), 'regex' (keyword fallback) or 'custom' */
+  source: 'llm' | 'cache' | 'regex' | 'custom';
+  sensitivity?: SensitivityLabel;
+  complexity?: ComplexityLabel;
+  confidence?: number;
+}
+
+export interface ClassifyContext {
+  signal?: AbortSignal;
+  /** Set by `explain()`: answer from cache or fallbacks without calling a model */
+  dryRun?: boolean;
+}
+
+/** `RouterOptions.classify`: pick the preset for an 'auto' route (sync or async). */
+export type PresetClassifier = (
+  input: unknown,
+  agent?: Agent,
+  ctx?: ClassifyContext
+) => RoutePreset | InputClassification | Promise<RoutePreset | InputClassification>;
+
+export const DEFAULT_SENSITIVE_PATTERNS: RegExp[] = [
+  /\bmedical\b/i,
+  /\bdiagnos/i,
+  /\bhealth\b/i,
+  /\bpatient\b/i,
+  /\bhipaa\b/i,
+  /\bphi\b/i,
+  /\blegal\b/i,
+  /\battorney\b/i,
+  /\blawsuit\b/i,
+  /\btax\b/i,
+  /\bfinance\b/i,
+  /\bbank\b/i,
+  /\bcredit card\b/i,
+  /\bssn\b/i,
+  /\bsocial security\b/i,
+  /\bpassword\b/i,
+  /\bapi key\b/i,
+  /\bsecret\b/i,
+  /\bconfidential\b/i,
+  /\bpii\b/i,
+  /\baccount number\b/i,
+];
+
+export function inputToText(input: unknown): string {
+  if (typeof input === 'string') return input;
+  if (input == null) return '';
+  try {
+    return JSON.stringify(input);
+  } catch {
+    return String(input);
+  }
+}
+
+/** Keyword classification: any sensitive pattern selects 'strict', otherwise 'fast'. */
+export function autoPresetForInput(input: unknown): RoutePreset {
+  const text = inputToText(input);
+  for (const pattern of DEFAULT_SENSITIVE_PATTERNS) {
+    if (pattern.test(text)) return 'strict';
+  }
+  return 'fast';
+}
+
+export interface LLMClassifierOptions {
+  /** A small, cheap provider used only for classification */
+  provider: ModelProvider;
+  /** Below this confidence the keyword patterns decide (default: 0.7) */
+  threshold?: number;
+  /** Presets per label; sensitivity wins over complexity (default: strict / fast / cheap) */
+  presets?: { sensitive?: RoutePreset; complex?: RoutePreset; simple?: RoutePreset };
+  /** Cached classifications, keyed by a hash of the full input text (default: 500 entries, 10 minutes) */
+  cacheSize?: number;
+  cacheTtlMs?: number;
+  /** Give up and fall back after this long (default: 2000 ms) */
+  timeoutMs?: number;
+  /** Input is truncated to this many characters before classification (default: 2000) */
+  maxInputChars?: number;
+  /** Override the instruction placed before the input */
+  prompt?: string;
+}
+
+const DEFAULT_CLASSIFIER_PROMPT = [
+  'Classify the user input below for model routing. Reply with one JSON object only:',
+  '{"sensitivity":"sensitive"|"general","complexity":"simple"|"complex","confidence":<0..1>}',
+  'sensitive: medical, legal, financial, credentials, or personal data. complex: multi-step reasoning, long documents, code, or analysis.',
+].join('\n');
+
+type Labels = { sensitivity: SensitivityLabel; complexity: ComplexityLabel; confidence: number };
+
+function parseLabels(output: unknown): Labels | undefined {
+  const v = extractJsonObject(output) as Partial<Labels> | null | undefined;
+  if (!v || typeof v !== 'object') return undefined;
+  if (v.sensitivity !== 'sensitive' && v.sensitivity !== 'general') return undefined;
+  if (v.complexity !== 'simple' && v.complexity !== 'complex') return undefined;
+  const confidence = Number(v.confidence);
+  if (!Number.isFinite(confidence)) return undefined;
+  return { sensitivity: v.sensitivity, complexity: v.complexity, confidence };
+}
+
+/**
+ * Classifier for the 'auto' preset that asks a cheap provider to label sensitivity and
+ * complexity. Answers are cached; low-confidence answers, errors and timeouts fall back
+ * to `DEFAULT_SENSITIVE_PATTERNS`.
+ */
+export function createLLMClassifier(options: LLMClassifierOptions): PresetClassifier {
+  const threshold = options.threshold ?? 0.7;
+  const presets = { sensitive: 'strict', complex: 'fast', simple: 'cheap', ...options.presets } as const;
+  const cacheSize = Math.max(0, options.cacheSize ?? 500);
+  const cacheTtlMs = options.cacheTtlMs ?? 10 * 60_000;
+  const timeoutMs = options.timeoutMs ?? 2000;
+  const maxInputChars = options.maxInputChars ?? 2000;
+  const cache = new Map<string, { value: InputClassification; expiresAt: number }>();
+
+  const fallback = (text: string, labels?: Labels): InputClassification => ({
+    preset: autoPresetForInput(text),
+    source: 'regex',
+    ...labels,
+  });
+
+  const remember = (key: string, value: InputClassification) => {
+    if (!cacheSize) return;
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: Date.now() + cacheTtlMs });
+    // Map iteration is insertion order: drop the oldest entries.
+    while (cache.size > cacheSize) cache.delete(cache.keys().next().value as string);
+  };
+
+  return async (input, _agent, ctx = {}) => {
+    const full = inputToText(input);
+    const text = full.slice(0, maxInputChars);
+    // Inputs that only differ past the truncation point still get their own entries.
+    const key = createHash('sha256').update(full).digest('hex');
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return { ...cached.value, source: 'cache' };
+    if (cached) cache.delete(key);
+    if (ctx.dryRun || ctx.signal?.aborted || !text.trim()) return fallback(text);
+
+    try {
+      const output = await callJsonWithTimeout(
+        options.provider,
+        `${options.prompt ?? DEFAULT_CLASSIFIER_PROMPT}\n\nInput:\n${text}`,
+        { timeoutMs, signal: ctx.signal, label: 'Classification' }
+      );
+      const labels = parseLabels(output);
+      if (!labels) return fallback(text);
+      if (labels.confidence < threshold) return fallback(text, labels);
+      const classification: InputClassification = {
+        preset: labels.sensitivity === 'sensitive' ? presets.sensitive : presets[labels.complexity],
+        source: 'llm',
+        ...labels,
+      };
+      remember(key, classification);
+      return classification;
+    } catch {
+      // Classification must never fail the route.
+      return fallback(text);
+    }
+  };
+}
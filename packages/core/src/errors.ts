@@ -1,6 +1,41 @@
 export class BoltError extends Error {
-  constructor(readonly code: string, message: string, readonly cause?: unknown) {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly cause?: unknown,
+    /** Structured figures for programmatic handling (e.g., budget spent/limit) */
+    readonly details?: Record<string, unknown>
+  ) {
   super(message);
   this.name = 'BoltError';
   }
-}
\ No newline at end of file
+}
+
+/** Typed cancellation error raised when a run's AbortSignal fires. */
+export function abortedError(signal?: AbortSignal | null, cause?: unknown): BoltError {
+  return new BoltError('ABORTED', 'Run aborted', cause ?? signal?.reason);
+}
+
+export function isAbortedError(err: unknown): err is BoltError {
+  return err instanceof BoltError && err.code === 'ABORTED';
+}
+
+export type BudgetDimension = 'cost' | 'tokens' | 'latency';
+
+/** `BUDGET_EXCEEDED` with the spent/limit figures (plus the estimate when raised before a call). */
+export function budgetExceededError(
+  dimension: BudgetDimension,
+  figures: { spent: number; limit: number; estimated?: number }
+): BoltError {
+  const estimate = figures.estimated != null ? `, estimated ${round(figures.estimated)}` : '';
+  return new BoltError(
+    'BUDGET_EXCEEDED',
+    `Route budget exceeded: ${dimension} (spent ${round(figures.spent)}${estimate}, limit ${figures.limit})`,
+    undefined,
+    { dimension, ...figures }
+  );
+}
+
+function round(n: number) {
+  return Math.round(n * 1e6) / 1e6;
+}
@@ -1,11 +1,107 @@
 // packages/core/src/events.ts
+import type { InputClassification } from './classifier';
+import type { PluginRouteContext, RouterPlugin } from './plugins';
+
 export type TraceEvent =
   | { type: 'route:start'; id: string; agentId: string; inputKind: string; memoryScope?: string }
   | { type: 'route:agent.resolve'; id: string; agentId: string; ok: boolean; reason?: string }
-  | { type: 'route:provider.select'; id: string; providerId: string }
+  | {
+      type: 'route:provider.select';
+      id: string;
+      providerId: string;
+      /** Set for 'auto' routes: the preset the classifier chose and its labels */
+      preset?: string;
+      classification?: InputClassification;
+    }
+  | {
+      type: 'route:provider.failover';
+      id: string;
+      fromProviderId: string;
+      toProviderId: string;
+      attempt: number;
+      message: string;
+    }
+  | {
+      type: 'route:budget.downgrade';
+      id: string;
+      fromProviderId: string;
+      toProviderId: string;
+      estimatedCostUSD: number;
+      remainingUSD: number;
+    }
+  | { type: 'route:provider.hedge'; id: string; fromProviderId: string; toProviderId: string; afterMs: number }
+  | {
+      type: 'breaker:open';
+      id: string;
+      providerId: string;
+      failures: number;
+      until: number;
+      reason: 'threshold' | 'failure-rate' | 'probe-failed';
+    }
+  | { type: 'breaker:half-open'; id: string; providerId: string }
+  | { type: 'breaker:close'; id: string; providerId: string }
+  | { type: 'ratelimit:wait'; id: string; providerId: string; reason: 'requests' | 'tokens' | 'concurrency' }
+  | { type: 'ratelimit:acquired'; id: string; providerId: string; waitedMs: number }
+  | {
+      type: 'ratelimit:spillover';
+      id: string;
+      fromProviderId: string;
+      toProviderId: string;
+      reason: 'requests' | 'tokens' | 'concurrency';
+    }
   | { type: 'provider:call:start'; id: string; providerId: string; args: { kind: string } }
   | { type: 'provider:call:token'; id: string; delta: string }
   | { type: 'provider:call:end'; id: string; providerId: string; ms: number; tokens?: number; outputPreview?: string }
+  | {
+      type: 'tool:call:start';
+      id: string;
+      toolId: string;
+      /** 'provider' for model-requested calls, 'agent' for `ctx.tools` calls */
+      source: 'agent' | 'provider';
+      toolCallId?: string;
+      /** Provider tool-call round within one `ctx.call` (0-based) */
+      iteration?: number;
+      argsPreview: string;
+    }
+  | {
+      type: 'tool:call:end';
+      id: string;
+      toolId: string;
+      source: 'agent' | 'provider';
+      toolCallId?: string;
+      iteration?: number;
+      ms: number;
+      outputPreview: string;
+    }
+  | {
+      type: 'tool:call:error';
+      id: string;
+      toolId: string;
+      source: 'agent' | 'provider';
+      toolCallId?: string;
+      iteration?: number;
+      ms: number;
+      message: string;
+      code?: string;
+    }
+  | {
+      type: 'tool:approval';
+      id: string;
+      toolCallId: string;
+      toolId: string;
+      decision: 'approved' | 'edited' | 'denied' | 'pending';
+      reason?: string;
+    }
+  | {
+      type: 'guard:block' | 'guard:flag' | 'guard:rewrite';
+      id: string;
+      agentId: string;
+      stage: 'input' | 'output';
+      checker: string;
+      categories?: string[];
+      reason?: string;
+    }
+  | { type: 'route:suspended'; id: string; pending: string[] }
   | { type: 'memory:history'; id: string; scope: string; limit?: number; count: number }
   | { type: 'memory:append'; id: string; scope: string; role: string }
   | { type: 'error'; id: string; message: string; stack?: string }
@@ -21,3 +117,29 @@ export class EventBus {
     return () => this.listeners.delete(fn);
   }
 }
+
+/**
+ * Built-in plugin that traces finished provider calls (`provider:call:end`) and failed routes
+ * (`error`). Output previews go through `sanitize`, the pipeline's `sanitizeTrace`.
+ */
+export function createEventsPlugin(
+  emit: (event: TraceEvent) => void,
+  sanitize: (text: string, ctx: PluginRouteContext) => string
+): RouterPlugin {
+  return {
+    name: 'bolt:events',
+    afterProviderCall(result, ctx) {
+      emit({
+        type: 'provider:call:end',
+        id: ctx.id,
+        providerId: ctx.provider.id,
+        ms: ctx.usage.ms,
+        tokens: result.tokens,
+        outputPreview: typeof result.output === 'string' ? sanitize(result.output, ctx).slice(0, 120) : undefined,
+      });
+    },
+    onRouteError(error: any, ctx) {
+      emit({ type: 'error', id: ctx.id, message: String(error?.message ?? error), stack: error?.stack });
+    },
+  };
+}
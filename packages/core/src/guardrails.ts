@@ -0,0 +1,394 @@
+// packages/core/src/guardrails.ts
+import { inputToText } from './classifier';
+import { BoltError } from './errors';
+import type { TraceEvent } from './events';
+import type { PluginRouteContext, RouterPlugin } from './plugins';
+import type { Agent, GuardAction, GuardRuleConfig, ModelProvider } from './types';
+import { callJsonWithTimeout, extractJsonObject } from '../util/jsonCall';
+
+export type GuardStage = 'input' | 'output';
+
+export interface GuardVerdict {
+  flagged: boolean;
+  categories?: string[];
+  reason?: string;
+  /** Offending text; 'rewrite' replaces each occurrence in string values */
+  matches?: string[];
+  /** Replacement value for 'rewrite' (wins over `matches`) */
+  rewrite?: unknown;
+}
+
+export interface GuardContext {
+  stage: GuardStage;
+  id: string;
+  agentId: string;
+  agent: Agent;
+  signal?: AbortSignal;
+}
+
+/** A checker function; `true` means flagged. */
+export type GuardCheckFn = (
+  value: unknown,
+  ctx: GuardContext
+) => boolean | GuardVerdict | Promise<boolean | GuardVerdict>;
+
+export interface GuardChecker {
+  name: string;
+  check: GuardCheckFn;
+}
+
+/** Programmatic rule: any checker (or plain function) with an action. */
+export interface GuardRule {
+  checker: GuardChecker | GuardCheckFn;
+  /** Default: 'block' */
+  action?: GuardAction;
+  /** Replacement text for 'rewrite' (default: '[removed]') */
+  replaceWith?: string;
+  /** Error message for 'block' */
+  message?: string;
+}
+
+export interface GuardrailOptions {
+  /** Rules for every agent's input, run before routing */
+  input?: Array<GuardRule | GuardRuleConfig>;
+  /** Rules for every agent's output, run before it is returned */
+  output?: Array<GuardRule | GuardRuleConfig>;
+  /** Checkers that config rules reference by name (`checker: 'pii'`) */
+  checkers?: Record<string, GuardChecker | GuardCheckFn>;
+  /** Checker behind `moderation` rules: a checker, or options for `createModerationChecker` */
+  moderation?: GuardChecker | ModerationCheckerOptions;
+}
+
+const DEFAULT_REPLACEMENT = '[removed]';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toVerdict(raw: boolean | GuardVerdict | undefined | null): GuardVerdict {
+  if (typeof raw === 'boolean') return { flagged: raw };
+  return raw ?? { flagged: false };
+}
+
+export interface KeywordCheckerOptions {
+  /** Default: 'keywords' */
+  name?: string;
+  /** Case-insensitive words or phrases, matched on word boundaries */
+  keywords?: string[];
+  /** String patterns are compiled case-insensitively */
+  patterns?: Array<string | RegExp>;
+  /** Category reported on matches (default: 'keyword') */
+  category?: string;
+}
+
+/** Local checker that flags keyword and regex matches anywhere in the (JSON-serialized) value. */
+export function createKeywordChecker(options: KeywordCheckerOptions): GuardChecker {
+  const regexes = [
+    ...(options.keywords ?? [])
+      .filter(Boolean)
+      .map((keyword) => new RegExp(`(?<!\\w)${escapeRegExp(keyword)}(?!\\w)`, 'gi')),
+    ...(options.patterns ?? []).map((pattern) => {
+      if (pattern instanceof RegExp) {
+        return new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+      }
+      try {
+        return new RegExp(pattern, 'gi');
+      } catch (error) {
+        throw new BoltError('GUARD_CONFIG', `Invalid guard pattern '${pattern}'`, error);
+      }
+    }),
+  ];
+  const category = options.category ?? 'keyword';
+  return {
+    name: options.name ?? 'keywords',
+    check(value) {
+      const text = inputToText(value);
+      const matches = new Set<string>();
+      for (const regex of regexes) {
+        for (const match of text.matchAll(regex)) if (match[0]) matches.add(match[0]);
+      }
+      if (!matches.size) return { flagged: false };
+      return {
+        flagged: true,
+        categories: [category],
+        reason: `${matches.size} keyword/pattern match${matches.size === 1 ? '' : 'es'}`,
+        matches: [...matches],
+      };
+    },
+  };
+}
+
+export const DEFAULT_MODERATION_CATEGORIES = [
+  'hate',
+  'harassment',
+  'self-harm',
+  'sexual',
+  'violence',
+  'illegal',
+  'prompt-injection',
+];
+
+export interface ModerationCheckerOptions {
+  /** A small, cheap provider used only for moderation */
+  provider: ModelProvider;
+  /** Categories to screen for (default: `DEFAULT_MODERATION_CATEGORIES`) */
+  categories?: string[];
+  /** Flag the content when the provider fails, times out or answers unparseably (default: true) */
+  failClosed?: boolean;
+  /** Default: 5000 ms */
+  timeoutMs?: number;
+  /** Text is truncated to this many characters before moderation (default: 4000) */
+  maxInputChars?: number;
+  /** Override the instruction placed before the text */
+  prompt?: string;
+}
+
+function moderationPrompt(categories: string[]): string {
+  return [
+    'You are a content moderator. Review the text below. Reply with one JSON object only:',
+    '{"flagged":true|false,"categories":[<matching categories>],"reason":"<short reason>"}',
+    `Flag only these categories: ${categories.join(', ')}.`,
+  ].join('\n');
+}
+
+function parseModeration(output: unknown, categories: string[]): GuardVerdict | undefined {
+  const v = extractJsonObject(output) as { flagged?: unknown; categories?: unknown; reason?: unknown } | null | undefined;
+  if (!v || typeof v !== 'object' || typeof v.flagged !== 'boolean') return undefined;
+  const allowed = new Set(categories.map((c) => c.toLowerCase()));
+  const found = Array.isArray(v.categories)
+    ? v.categories.map((c) => String(c).toLowerCase()).filter((c) => allowed.has(c))
+    : [];
+  // A verdict naming only categories outside the screened set is not a flag.
+  const flagged = v.flagged && (!Array.isArray(v.categories) || !v.categories.length || found.length > 0);
+  return {
+    flagged,
+    ...(flagged && found.length ? { categories: found } : {}),
+    ...(flagged && typeof v.reason === 'string' && v.reason ? { reason: v.reason } : {}),
+  };
+}
+
+/**
+ * Checker that asks a cheap provider for a JSON moderation verdict. Errors, timeouts and
+ * unparseable answers flag the content unless `failClosed` is false.
+ */
+export function createModerationChecker(options: ModerationCheckerOptions): GuardChecker {
+  const categories = options.categories?.length ? options.categories : DEFAULT_MODERATION_CATEGORIES;
+  const failClosed = options.failClosed ?? true;
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const maxInputChars = options.maxInputChars ?? 4000;
+  const prompt = options.prompt ?? moderationPrompt(categories);
+
+  const failed = (reason: string): GuardVerdict =>
+    failClosed ? { flagged: true, categories: ['moderation-unavailable'], reason } : { flagged: false };
+
+  return {
+    name: 'moderation',
+    async check(value, ctx) {
+      const text = inputToText(value).slice(0, maxInputChars);
+      if (!text.trim()) return { flagged: false };
+
+      try {
+        const output = await callJsonWithTimeout(options.provider, `${prompt}\n\nText:\n${text}`, {
+          timeoutMs,
+          signal: ctx.signal,
+          label: 'Moderation',
+        });
+        return parseModeration(output, categories) ?? failed('unreadable moderation verdict');
+      } catch (error) {
+        return failed(`moderation check failed: ${(error as Error)?.message ?? String(error)}`);
+      }
+    },
+  };
+}
+
+interface CompiledRule {
+  checker: GuardChecker;
+  action: GuardAction;
+  replaceWith: string;
+  message?: string;
+}
+
+function toChecker(checker: GuardChecker | GuardCheckFn, fallbackName: string): GuardChecker {
+  return typeof checker === 'function' ? { name: checker.name || fallbackName, check: checker } : checker;
+}
+
+function isGuardRule(rule: GuardRule | GuardRuleConfig): rule is GuardRule {
+  return typeof rule.checker === 'object' || typeof rule.checker === 'function';
+}
+
+function onlyCategories(checker: GuardChecker, categories: string[]): GuardChecker {
+  const wanted = new Set(categories.map((c) => c.toLowerCase()));
+  return {
+    name: checker.name,
+    async check(value, ctx) {
+      const verdict = toVerdict(await checker.check(value, ctx));
+      if (!verdict.flagged || !verdict.categories?.length) return verdict;
+      return verdict.categories.some((c) => wanted.has(c.toLowerCase())) ? verdict : { flagged: false };
+    },
+  };
+}
+
+function compileRules(rules: Array<GuardRule | GuardRuleConfig> | undefined, options: GuardrailOptions): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules ?? []) {
+    const base = {
+      action: rule.action ?? 'block',
+      replaceWith: rule.replaceWith ?? DEFAULT_REPLACEMENT,
+      ...(rule.message ? { message: rule.message } : {}),
+    };
+    if (isGuardRule(rule)) {
+      compiled.push({ ...base, checker: toChecker(rule.checker, 'custom') });
+      continue;
+    }
+    const checkers: GuardChecker[] = [];
+    if (rule.keywords?.length || rule.patterns?.length) {
+      checkers.push(createKeywordChecker({ keywords: rule.keywords, patterns: rule.patterns }));
+    }
+    if (rule.moderation) {
+      const moderation = options.moderation;
+      if (!moderation) {
+        throw new BoltError('GUARD_CONFIG', 'A guard rule uses moderation but no `guardrails.moderation` checker is configured');
+      }
+      const categories = Array.isArray(rule.moderation) && rule.moderation.length ? rule.moderation : undefined;
+      if ('provider' in moderation) {
+        checkers.push(createModerationChecker(categories ? { ...moderation, categories } : moderation));
+      } else {
+        checkers.push(categories ? onlyCategories(moderation, categories) : moderation);
+      }
+    }
+    if (rule.checker) {
+      const named = options.checkers?.[rule.checker];
+      if (!named) throw new BoltError('GUARD_CONFIG', `Unknown guard checker '${rule.checker}'`);
+      checkers.push(toChecker(named, rule.checker));
+    }
+    if (!checkers.length) {
+      throw new BoltError('GUARD_CONFIG', 'Guard rule needs keywords, patterns, moderation or a checker');
+    }
+    for (const checker of checkers) compiled.push({ ...base, checker });
+  }
+  return compiled;
+}
+
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn));
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+function rewriteValue(value: unknown, verdict: GuardVerdict, replaceWith: string): unknown {
+  if (verdict.rewrite !== undefined) return verdict.rewrite;
+  const matches = verdict.matches?.filter(Boolean);
+  // Without spans to replace, the whole value goes.
+  if (!matches?.length) return replaceWith;
+  const pattern = new RegExp(
+    [...matches].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'),
+    'g'
+  );
+  return mapStrings(value, (text) => text.replace(pattern, replaceWith));
+}
+
+async function applyRules(
+  rules: CompiledRule[],
+  value: unknown,
+  stage: GuardStage,
+  ctx: PluginRouteContext,
+  emit: (event: TraceEvent) => void
+): Promise<unknown> {
+  const guardCtx: GuardContext = { stage, id: ctx.id, agentId: ctx.agentId, agent: ctx.agent, signal: ctx.signal };
+  let current = value;
+  for (const rule of rules) {
+    const name = rule.checker.name;
+    let verdict: GuardVerdict;
+    try {
+      verdict = toVerdict(await rule.checker.check(current, guardCtx));
+    } catch (error) {
+      if (error instanceof BoltError) throw error;
+      throw new BoltError('GUARD_ERROR', `Guard checker '${name}' failed: ${(error as Error)?.message ?? error}`, error, {
+        stage,
+        checker: name,
+      });
+    }
+    if (!verdict.flagged) continue;
+
+    const details = {
+      stage,
+      checker: name,
+      ...(verdict.categories?.length ? { categories: verdict.categories } : {}),
+      ...(verdict.reason ? { reason: verdict.reason } : {}),
+    };
+    emit({ type: `guard:${rule.action}`, id: ctx.id, agentId: ctx.agentId, ...details });
+    if (rule.action === 'block') {
+      const fallback = `${stage === 'input' ? 'Input' : 'Output'} blocked by guard '${name}'${verdict.reason ? `: ${verdict.reason}` : ''}`;
+      throw new BoltError('GUARD_BLOCKED', rule.message ?? fallback, undefined, details);
+    }
+    if (rule.action === 'rewrite') current = rewriteValue(current, verdict, rule.replaceWith);
+  }
+  return current;
+}
+
+/** `GUARD_BLOCKED` or `GUARD_ERROR`; plugins' `onError` cannot recover or replace these. */
+export function isGuardError(err: unknown): err is BoltError {
+  return err instanceof BoltError && (err.code === 'GUARD_BLOCKED' || err.code === 'GUARD_ERROR');
+}
+
+/**
+ * Built-in plugin enforcing router-wide and per-agent (`Agent.guards`) rules: input before
+ * routing, output before it is returned. Blocks fail the route with `GUARD_BLOCKED`. With
+ * output rules, streamed tokens are held back and only the checked output is streamed.
+ */
+export function createGuardrailPlugin(
+  options: GuardrailOptions = {},
+  emit: (event: TraceEvent) => void = () => {}
+): RouterPlugin {
+  const shared = { input: compileRules(options.input, options), output: compileRules(options.output, options) };
+  const perAgent = new WeakMap<Agent, { input: CompiledRule[]; output: CompiledRule[] }>();
+  const heldStreams = new WeakMap<object, { emit: (delta: string) => void; streamed: boolean }>();
+
+  const rulesFor = (agent: Agent, stage: GuardStage): CompiledRule[] => {
+    if (!agent.guards) return shared[stage];
+    let own = perAgent.get(agent);
+    if (!own) {
+      own = { input: compileRules(agent.guards.input, options), output: compileRules(agent.guards.output, options) };
+      perAgent.set(agent, own);
+    }
+    return [...shared[stage], ...own[stage]];
+  };
+
+  return {
+    name: 'bolt:guardrails',
+    async beforeRoute(ctx) {
+      const rules = rulesFor(ctx.agent, 'input');
+      if (!rules.length) return undefined;
+      const input = await applyRules(rules, ctx.input, 'input', ctx, emit);
+      return input === ctx.input ? undefined : { input };
+    },
+    streamFilter(sink, ctx) {
+      if (!rulesFor(ctx.agent, 'output').length) return undefined;
+      // One filter per provider call. Tokens of every call (reasoning passes, tool-loop turns) are
+      // swallowed; only the checked final output is streamed, in afterRoute.
+      const held = heldStreams.get(ctx.state) ?? { emit: sink, streamed: false };
+      held.emit = sink;
+      heldStreams.set(ctx.state, held);
+      return {
+        push: () => {
+          held.streamed = true;
+        },
+        flush: () => {},
+      };
+    },
+    async afterRoute(output, ctx) {
+      const rules = rulesFor(ctx.agent, 'output');
+      if (!rules.length) return undefined;
+      const held = heldStreams.get(ctx.state);
+      heldStreams.delete(ctx.state);
+      // A block throws here, so nothing streamed reaches the caller.
+      const checked = await applyRules(rules, output, 'output', ctx, emit);
+      // Only text the rules have seen goes out; structured outputs stream nothing.
+      if (held?.streamed && typeof checked === 'string' && checked) held.emit(checked);
+      return checked === output ? undefined : { output: checked };
+    },
+  };
+}
@@ -2,6 +2,18 @@ export * from './types';
 export * from './errors';
 export * from './events';
 export * from './router';
+export * from './breaker';
+export * from './budgets';
+export * from './approvals';
+export * from './rateLimit';
+export * from './redaction';
+export * from './plugins';
+export * from './guardrails';
+export * from './schema';
+export * from './usage';
+export * from './quotas';
+export * from './classifier';
+export * from './vision';
 export * from './planner';
 export * from './runner';
 export * from './orchestrator';
@@ -10,6 +22,7 @@ export * from './memory';
 export * from './tools';
 export * from './templates';
 export * from './cache';
+export * from './checkpoints';
 export * from './planners/llm';
 export * from './tools/registry';
 export * from './boltDocs';
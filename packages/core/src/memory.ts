@@ -9,6 +9,12 @@ export class InMemoryStore implements MemoryStore {
     const cur = (this.kv.get(key) ?? {}) as T; this.kv.set(key, { ...cur, ...delta });
   }
 
+  async increment(key: string, amount: number) {
+    const next = Number(this.kv.get(key) ?? 0) + amount; this.kv.set(key, next); return next;
+  }
+
+  async delete(key: string) { this.kv.delete(key) }
+
   async appendConversation(id: string, m: Message) {
     const arr = this.chats.get(id) ?? []; arr.push(m); this.chats.set(id, arr);
   }
@@ -1,7 +1,8 @@
 // packages/core/src/orchestrator.ts
 
+import { BoltError } from "./errors";
 import type { AppRouter } from "./router";
-import type { Plan, RunOptions, RunnerContext, ToolFn } from "./types";
+import type { CheckpointStore, Plan, RunOptions, RunnerContext, ToolFn } from "./types";
 import { createHeuristicPlan } from "./planner";
 import { createLLMPlan } from "./planners/llm";
 import { runPlan } from "./runner";
@@ -14,6 +15,8 @@ export interface OrchestratorOptions {
   plannerAgentId?: string;
   maxSteps?: number;
   run?: RunOptions;
+  /** Saves each run's progress under its run id (`taskId` or a fresh uuid) so `resumePlan` can continue it; finished runs are deleted */
+  checkpoints?: CheckpointStore;
 }
 
 export interface OrchestratorContext {
@@ -22,6 +25,8 @@ export interface OrchestratorContext {
   input: any;
   memoryScope?: string;
   tools?: Record<string, ToolFn>;
+  /** Cancels the running step (route or tool) and the rest of the plan */
+  signal?: AbortSignal;
 }
 
 export class Orchestrator {
@@ -60,14 +65,51 @@ export class Orchestrator {
 
   async run(ctx: Omit<OrchestratorContext, "taskId"> & { taskId?: string }, runOpts: RunOptions = {}) {
     const plan = await this.plan(ctx);
+    // Plan ids repeat across runs (fixed or model-chosen), so checkpoints get their own id.
+    const runId = ctx.taskId ?? uuid();
     const runnerCtx: RunnerContext = {
       taskId: plan.id ?? ctx.taskId ?? uuid(),
+      runId,
       agentId: ctx.agentId,
       input: ctx.input,
       memoryScope: ctx.memoryScope,
       tools: ctx.tools,
+      signal: ctx.signal,
     };
-    return runPlan(this.router, plan, runnerCtx, { ...this.options.run, ...runOpts });
+    const opts = this.runOptions(runOpts);
+    const result = await runPlan(this.router, plan, runnerCtx, opts);
+    // A finished run has nothing left to resume.
+    await opts.checkpoints?.delete(runId);
+    return { ...result, runId };
+  }
+
+  /**
+   * Continue a checkpointed run (e.g. after a crash, outage or budget stop). Finished steps are
+   * restored from the checkpoint; the rest run with the tools and signal given here.
+   */
+  async resumePlan(runId: string, ctx: Pick<OrchestratorContext, "tools" | "signal"> = {}, runOpts: RunOptions = {}) {
+    const opts = this.runOptions(runOpts);
+    if (!opts.checkpoints) {
+      throw new BoltError("CHECKPOINT_STORE_MISSING", "resumePlan needs a checkpoint store (OrchestratorOptions.checkpoints)");
+    }
+    const checkpoint = await opts.checkpoints.load(runId);
+    if (!checkpoint) throw new BoltError("CHECKPOINT_NOT_FOUND", `No checkpoint for run '${runId}'`);
+    const runnerCtx: RunnerContext = {
+      taskId: checkpoint.taskId ?? checkpoint.runId,
+      runId: checkpoint.runId,
+      agentId: checkpoint.agentId,
+      input: checkpoint.input,
+      memoryScope: checkpoint.memoryScope,
+      tools: ctx.tools,
+      signal: ctx.signal,
+    };
+    const result = await runPlan(this.router, checkpoint.plan, runnerCtx, { ...opts, resumeFrom: checkpoint });
+    await opts.checkpoints.delete(checkpoint.runId);
+    return { ...result, runId: checkpoint.runId };
+  }
+
+  private runOptions(runOpts: RunOptions): RunOptions {
+    return { checkpoints: this.options.checkpoints, ...this.options.run, ...runOpts };
   }
 }
 
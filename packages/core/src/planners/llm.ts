@@ -4,7 +4,8 @@ import type { Plan } from "../types";
 import { uuid } from "../../util/uuid";
 
 const DSL_DESC = `Bolt Plan DSL:
-- See Agent 'planner' for the exact schema (model/tool/parallel/map/branch, guards, outputs).
+- See Agent 'planner' for the exact schema (model/tool/parallel/map/branch/loop, guards, outputs).
+- loop: { "kind": "loop", "body": [step ids], "until": Condition, "maxIterations": number }; read iteration n as "loopId[n].stepId".
 - You MUST output a single JSON object only (no prose / fences).`;
 
 function extractJson(raw: string): string | null {
@@ -21,21 +22,52 @@ function extractJson(raw: string): string | null {
   return null;
 }
 
+// parallel children, branch arms and loop bodies name steps of the same list (plan or map body)
+function isStepIdList(v: unknown, ids: Set<string>): boolean {
+  return Array.isArray(v) && v.every((id) => typeof id === 'string' && ids.has(id));
+}
+
+function validateMapChild(c: any): boolean {
+  if (!c || typeof c !== 'object') return false;
+  if (c.kind === 'model') return typeof c.agent === 'string';
+  if (c.kind === 'tool') return typeof c.toolId === 'string';
+  return false;
+}
+
+function validateSteps(steps: unknown): boolean {
+  if (!Array.isArray(steps)) return false;
+  const ids = new Set<string>(steps.map((s: any) => s?.id));
+  return steps.every((s) => validateStep(s, ids));
+}
+
+function validateStep(s: any, ids: Set<string>): boolean {
+  if (!s || typeof s !== 'object') return false;
+  if (typeof s.id !== 'string') return false;
+  if (!['model','tool','parallel','map','branch','loop'].includes(s.kind)) return false;
+  if (s.kind === 'model' && typeof s.agent !== 'string') return false;
+  if (s.kind === 'tool' && typeof s.toolId !== 'string') return false;
+  if (s.kind === 'parallel' && !isStepIdList(s.children, ids)) return false;
+  if (s.kind === 'map') {
+    if (typeof s.itemsFrom !== 'string') return false;
+    if (s.child == null && s.steps == null) return false;
+    if (s.child != null && !validateMapChild(s.child)) return false;
+    if (s.steps != null && !validateSteps(s.steps)) return false;
+  }
+  if (s.kind === 'branch') {
+    if (!Array.isArray(s.branches)) return false;
+    if (!s.branches.every((b: any) => b && typeof b === 'object' && isStepIdList(b.then, ids))) return false;
+    if (s.else != null && !isStepIdList(s.else, ids)) return false;
+  }
+  if (s.kind === 'loop' && !isStepIdList(s.body, ids)) return false;
+  if (s.kind === 'loop' && s.maxIterations != null && !(Number(s.maxIterations) >= 1)) return false;
+  return true;
+}
+
 function validatePlan(p: any): p is Plan {
   if (!p || typeof p !== 'object') return false;
   if (typeof p.id !== 'string') return false;
-  if (!Array.isArray(p.steps) || !Array.isArray(p.outputs)) return false;
-  for (const s of p.steps) {
-    if (!s || typeof s !== 'object') return false;
-    if (typeof s.id !== 'string') return false;
-    if (!['model','tool','parallel','map','branch'].includes(s.kind)) return false;
-    if (s.kind === 'model' && typeof s.agent !== 'string') return false;
-    if (s.kind === 'tool' && typeof s.toolId !== 'string') return false;
-    if (s.kind === 'parallel' && !Array.isArray(s.children)) return false;
-    if (s.kind === 'map' && (typeof s.itemsFrom !== 'string' || typeof s.child !== 'object')) return false;
-    if (s.kind === 'branch' && !Array.isArray(s.branches)) return false;
-  }
-  return true;
+  if (!Array.isArray(p.outputs)) return false;
+  return validateSteps(p.steps);
 }
 
 export async function createLLMPlan(
@@ -0,0 +1,206 @@
+// packages/core/src/plugins.ts
+import type { RouteHints } from './router';
+import type { Agent, ModelProvider, ProviderCallArgs, ProviderResult } from './types';
+
+type HookResult<T> = void | undefined | T | Promise<void | undefined | T>;
+
+/** Shared by every hook of one route. */
+export interface PluginRouteContext {
+  id: string;
+  agentId: string;
+  agent: Agent;
+  /** Route input without `__bolt` hints; `beforeRoute` may replace it */
+  input: unknown;
+  hints: RouteHints;
+  memoryScope?: string;
+  tenantId?: string;
+  signal?: AbortSignal;
+  /** Scratch space for plugins, fresh per route (and per resume) */
+  state: Record<string, unknown>;
+}
+
+export interface PluginCallContext extends PluginRouteContext {
+  /** The provider the router is about to call (failover may move on to another one) */
+  provider: ModelProvider;
+  /** Pre-flight prompt token and cost estimate for `provider` */
+  estimate: { promptTokens: number; costUSD?: number };
+}
+
+export interface PluginCallResultContext extends PluginRouteContext {
+  /** The provider that answered */
+  provider: ModelProvider;
+  /** Arguments the provider received */
+  args: ProviderCallArgs;
+  usage: { tokens: number; costUSD?: number; ms: number };
+}
+
+export interface PluginCallErrorContext extends PluginRouteContext {
+  /** The provider that failed */
+  provider: ModelProvider;
+  /** Arguments the provider received */
+  args: ProviderCallArgs;
+  ms: number;
+}
+
+export interface PluginToolCall {
+  toolId: string;
+  args: unknown;
+  /** 'agent' for `ctx.tools` calls, 'provider' for provider-native tool calls */
+  source: 'agent' | 'provider';
+  toolCallId?: string;
+  iteration?: number;
+}
+
+export interface PluginStreamFilter {
+  push(delta: string): void;
+  flush(): void;
+}
+
+/**
+ * Router middleware. Hooks run in registration order (built-ins first); each may return a
+ * replacement, and `output` / `result` short-circuit the step and the remaining plugins.
+ */
+export interface RouterPlugin {
+  name: string;
+  /** Rewrite the input (`{ input }`) or answer without running the agent (`{ output }`). */
+  beforeRoute?(ctx: PluginRouteContext): HookResult<{ input?: unknown; output?: unknown }>;
+  /**
+   * Rewrite the call (`{ args }`) or answer it without a provider (`{ result }`); short-circuited
+   * results skip usage accounting and `afterProviderCall`.
+   */
+  beforeProviderCall?(
+    args: ProviderCallArgs,
+    ctx: PluginCallContext
+  ): HookResult<{ args?: ProviderCallArgs; result?: ProviderResult }>;
+  afterProviderCall?(result: ProviderResult, ctx: PluginCallResultContext): HookResult<{ result?: ProviderResult }>;
+  /** A provider call failed (cancelled calls excluded); failover may still move on. Observe only. */
+  onProviderError?(error: unknown, ctx: PluginCallErrorContext): void | Promise<void>;
+  /** Wrap the caller's token stream; `flush` runs when a provider call finishes. */
+  streamFilter?(emit: (delta: string) => void, ctx: PluginRouteContext): PluginStreamFilter | void;
+  /** Rewrite tool arguments (`{ args }`) or answer without running the tool (`{ output }`). */
+  onToolCall?(call: PluginToolCall, ctx: PluginRouteContext): HookResult<{ args?: unknown; output?: unknown }>;
+  afterRoute?(output: unknown, ctx: PluginRouteContext): HookResult<{ output?: unknown }>;
+  /** Errors thrown while the agent runs: recover (`{ output }`) or replace the error (`{ error }`). */
+  onError?(error: unknown, ctx: PluginRouteContext): HookResult<{ output?: unknown; error?: unknown }>;
+  /** The error the route finally rejects with, after `onError`. Observe only. */
+  onRouteError?(error: unknown, ctx: PluginRouteContext): void | Promise<void>;
+  /** Scrub text copied into trace events (argument and output previews). */
+  sanitizeTrace?(text: string, ctx: PluginRouteContext): string | void;
+}
+
+/** Runs plugin hooks in order for the router. */
+export class PluginPipeline {
+  constructor(readonly plugins: RouterPlugin[] = []) {}
+
+  /** Returns `{ output }` when a plugin answered the route; `ctx.input` holds any rewrite. */
+  async beforeRoute(ctx: PluginRouteContext): Promise<{ output: unknown } | undefined> {
+    for (const plugin of this.plugins) {
+      const r = await plugin.beforeRoute?.(ctx);
+      if (!r) continue;
+      if ('input' in r) ctx.input = r.input;
+      if ('output' in r) return { output: r.output };
+    }
+    return undefined;
+  }
+
+  async beforeProviderCall(
+    args: ProviderCallArgs,
+    ctx: PluginCallContext
+  ): Promise<{ args: ProviderCallArgs; result?: ProviderResult }> {
+    let current = args;
+    for (const plugin of this.plugins) {
+      const r = await plugin.beforeProviderCall?.(current, ctx);
+      if (!r) continue;
+      if (r.args) current = r.args;
+      if (r.result) return { args: current, result: r.result };
+    }
+    return { args: current };
+  }
+
+  async afterProviderCall(result: ProviderResult, ctx: PluginCallResultContext): Promise<ProviderResult> {
+    let current = result;
+    for (const plugin of this.plugins) {
+      const r = await plugin.afterProviderCall?.(current, ctx);
+      if (r?.result) current = r.result;
+    }
+    return current;
+  }
+
+  /** Observers never fail the call: the provider error is what failover and hedging act on. */
+  async onProviderError(error: unknown, ctx: PluginCallErrorContext): Promise<void> {
+    for (const plugin of this.plugins) {
+      try {
+        await plugin.onProviderError?.(error, ctx);
+      } catch {
+        // ignored
+      }
+    }
+  }
+
+  /** The caller's sink wrapped by every plugin filter, or undefined when none filters. */
+  streamFilter(emit: (delta: string) => void, ctx: PluginRouteContext): PluginStreamFilter | undefined {
+    const filters: PluginStreamFilter[] = [];
+    let sink = emit;
+    // Wrap from the last plugin inwards so the first plugin sees provider deltas first.
+    for (const plugin of [...this.plugins].reverse()) {
+      const filter = plugin.streamFilter?.(sink, ctx);
+      if (!filter) continue;
+      filters.unshift(filter);
+      sink = (delta) => filter.push(delta);
+    }
+    if (!filters.length) return undefined;
+    return {
+      push: sink,
+      // Outer filters flush first so held-back text reaches the inner ones before they flush.
+      flush: () => filters.forEach((f) => f.flush()),
+    };
+  }
+
+  async onToolCall(call: PluginToolCall, ctx: PluginRouteContext): Promise<{ args: unknown; output?: unknown; answered: boolean }> {
+    let args = call.args;
+    for (const plugin of this.plugins) {
+      const r = await plugin.onToolCall?.({ ...call, args }, ctx);
+      if (!r) continue;
+      if ('args' in r) args = r.args;
+      if ('output' in r) return { args, output: r.output, answered: true };
+    }
+    return { args, answered: false };
+  }
+
+  async afterRoute(output: unknown, ctx: PluginRouteContext): Promise<unknown> {
+    let current = output;
+    for (const plugin of this.plugins) {
+      const r = await plugin.afterRoute?.(current, ctx);
+      if (r && 'output' in r) current = r.output;
+    }
+    return current;
+  }
+
+  async onError(error: unknown, ctx: PluginRouteContext): Promise<{ recovered: true; output: unknown } | { recovered: false; error: unknown }> {
+    let current = error;
+    for (const plugin of this.plugins) {
+      const r = await plugin.onError?.(current, ctx);
+      if (!r) continue;
+      if ('output' in r) return { recovered: true, output: r.output };
+      if ('error' in r) current = r.error;
+    }
+    return { recovered: false, error: current };
+  }
+
+  /** Observers never replace the route's error. */
+  async onRouteError(error: unknown, ctx: PluginRouteContext): Promise<void> {
+    for (const plugin of this.plugins) {
+      try {
+        await plugin.onRouteError?.(error, ctx);
+      } catch {
+        // ignored
+      }
+    }
+  }
+
+  sanitizeTrace(text: string, ctx: PluginRouteContext): string {
+    let current = text;
+    for (const plugin of this.plugins) current = plugin.sanitizeTrace?.(current, ctx) ?? current;
+    return current;
+  }
+}
@@ -0,0 +1,178 @@
+// packages/core/src/quotas.ts
+import { BoltError } from './errors';
+import type { RouterPlugin } from './plugins';
+import type { MemoryStore } from './types';
+
+export type QuotaPeriod = 'day' | 'month';
+export type QuotaDimension = 'tokens' | 'cost';
+
+/** Per-tenant limits; periods are UTC calendar days and months. */
+export interface QuotaLimits {
+  tokensPerDay?: number;
+  tokensPerMonth?: number;
+  costUSDPerDay?: number;
+  costUSDPerMonth?: number;
+}
+
+export interface QuotaOptions {
+  /** Limits applied to every tenant */
+  limits?: QuotaLimits;
+  /** Per-tenant overrides, merged over `limits` */
+  tenants?: Record<string, QuotaLimits>;
+  /** Map a run's `memoryScope` to its tenant key when no `tenantId` is given (default: the scope itself) */
+  tenantFromScope?: (memoryScope: string) => string | undefined;
+  /** MemoryStore key prefix (default: 'bolt:quota') */
+  namespace?: string;
+}
+
+export interface QuotaPeriodUsage {
+  /** '2026-10-19' for days, '2026-10' for months */
+  period: string;
+  tokens: number;
+  costUSD: number;
+}
+
+export interface QuotaUsage {
+  tenantId: string;
+  day: QuotaPeriodUsage;
+  month: QuotaPeriodUsage;
+  limits: QuotaLimits;
+}
+
+// Counters outlive their period a little so late readers still see the final figures.
+const TTL_SECONDS: Record<QuotaPeriod, number> = { day: 2 * 86_400, month: 32 * 86_400 };
+
+function periodKey(period: QuotaPeriod, now: Date) {
+  const iso = now.toISOString();
+  return period === 'day' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+/** `QUOTA_EXCEEDED` with the tenant, period and spent/limit figures. */
+export function quotaExceededError(
+  tenantId: string,
+  period: QuotaPeriod,
+  dimension: QuotaDimension,
+  figures: { spent: number; limit: number; estimated?: number }
+): BoltError {
+  const estimate = figures.estimated != null ? `, estimated ${round(figures.estimated)}` : '';
+  return new BoltError(
+    'QUOTA_EXCEEDED',
+    `Tenant '${tenantId}' ${period}ly ${dimension} quota exceeded (spent ${round(figures.spent)}${estimate}, limit ${figures.limit})`,
+    undefined,
+    { tenantId, period, dimension, ...figures }
+  );
+}
+
+function round(n: number) {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+/**
+ * Daily/monthly token and USD counters per tenant, persisted in a MemoryStore. Stores with
+ * `increment` (Redis, InMemoryStore) update counters atomically; checks run before each call,
+ * so concurrent calls can overshoot a limit by at most their own usage.
+ */
+export class QuotaManager {
+  private namespace: string;
+
+  constructor(private memory: MemoryStore, private options: QuotaOptions = {}) {
+    this.namespace = options.namespace ?? 'bolt:quota';
+  }
+
+  /** Tenant key for a run: explicit id first, then the (mapped) memory scope. */
+  resolveTenant(req: { tenantId?: string; memoryScope?: string }): string | undefined {
+    if (req.tenantId) return req.tenantId;
+    if (!req.memoryScope) return undefined;
+    return this.options.tenantFromScope ? this.options.tenantFromScope(req.memoryScope) : req.memoryScope;
+  }
+
+  limitsFor(tenantId: string): QuotaLimits {
+    return { ...this.options.limits, ...this.options.tenants?.[tenantId] };
+  }
+
+  /** Throw `QUOTA_EXCEEDED` if the estimated call would take the tenant past any limit. */
+  async check(tenantId: string, estimate: { tokens: number; costUSD?: number }, now = new Date()) {
+    const limits = this.limitsFor(tenantId);
+    for (const period of ['day', 'month'] as const) {
+      const tokenLimit = period === 'day' ? limits.tokensPerDay : limits.tokensPerMonth;
+      const costLimit = period === 'day' ? limits.costUSDPerDay : limits.costUSDPerMonth;
+      if (tokenLimit == null && costLimit == null) continue;
+      const spent = await this.read(tenantId, period, now);
+      if (tokenLimit != null && spent.tokens + estimate.tokens > tokenLimit) {
+        throw quotaExceededError(tenantId, period, 'tokens', {
+          spent: spent.tokens,
+          limit: tokenLimit,
+          estimated: estimate.tokens,
+        });
+      }
+      if (costLimit != null && spent.costUSD + (estimate.costUSD ?? 0) > costLimit) {
+        throw quotaExceededError(tenantId, period, 'cost', {
+          spent: spent.costUSD,
+          limit: costLimit,
+          estimated: estimate.costUSD,
+        });
+      }
+    }
+  }
+
+  async record(tenantId: string, used: { tokens: number; costUSD?: number }, now = new Date()) {
+    for (const period of ['day', 'month'] as const) {
+      if (used.tokens) await this.add(this.key(tenantId, period, 'tokens', now), used.tokens, TTL_SECONDS[period]);
+      if (used.costUSD) await this.add(this.key(tenantId, period, 'cost', now), used.costUSD, TTL_SECONDS[period]);
+    }
+  }
+
+  async usage(tenantId: string, now = new Date()): Promise<QuotaUsage> {
+    return {
+      tenantId,
+      day: await this.read(tenantId, 'day', now),
+      month: await this.read(tenantId, 'month', now),
+      limits: this.limitsFor(tenantId),
+    };
+  }
+
+  /** Zero the current day and/or month counters. */
+  async reset(tenantId: string, period?: QuotaPeriod, now = new Date()) {
+    for (const p of period ? [period] : (['day', 'month'] as const)) {
+      await this.memory.set(this.key(tenantId, p, 'tokens', now), 0, TTL_SECONDS[p]);
+      await this.memory.set(this.key(tenantId, p, 'cost', now), 0, TTL_SECONDS[p]);
+    }
+  }
+
+  private async read(tenantId: string, period: QuotaPeriod, now: Date): Promise<QuotaPeriodUsage> {
+    const [tokens, costUSD] = await Promise.all([
+      this.memory.get<number>(this.key(tenantId, period, 'tokens', now)),
+      this.memory.get<number>(this.key(tenantId, period, 'cost', now)),
+    ]);
+    return { period: periodKey(period, now), tokens: Number(tokens ?? 0), costUSD: Number(costUSD ?? 0) };
+  }
+
+  private async add(key: string, amount: number, ttlSeconds: number) {
+    if (this.memory.increment) {
+      await this.memory.increment(key, amount, ttlSeconds);
+      return;
+    }
+    // Stores without an atomic increment fall back to read-modify-write.
+    const current = Number((await this.memory.get<number>(key)) ?? 0);
+    await this.memory.set(key, current + amount, ttlSeconds);
+  }
+
+  private key(tenantId: string, period: QuotaPeriod, dimension: QuotaDimension, now: Date) {
+    return `${this.namespace}:${tenantId}:${period}:${periodKey(period, now)}:${dimension}`;
+  }
+}
+
+/** Built-in plugin behind `RouterOptions.quotas`: check the estimate before each call, record usage after. */
+export function createQuotaPlugin(quotas: QuotaManager): RouterPlugin {
+  return {
+    name: 'bolt:quotas',
+    async beforeProviderCall(_args, ctx) {
+      if (!ctx.tenantId) return;
+      await quotas.check(ctx.tenantId, { tokens: ctx.estimate.promptTokens, costUSD: ctx.estimate.costUSD });
+    },
+    async afterProviderCall(_result, ctx) {
+      if (!ctx.tenantId) return;
+      await quotas.record(ctx.tenantId, { tokens: ctx.usage.tokens, costUSD: ctx.usage.costUSD });
+    },
+  };
+}
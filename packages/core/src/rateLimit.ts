@@ -0,0 +1,193 @@
+// packages/core/src/rateLimit.ts
+import { abortedError } from './errors';
+
+export interface RateLimitRule {
+  /** Calls started per rolling minute (token bucket, bursts up to this many) */
+  requestsPerMinute?: number;
+  /**
+   * Provider-reported tokens per minute. Usage is charged when a call finishes, so a bucket
+   * in debt blocks new calls until it refills.
+   */
+  tokensPerMinute?: number;
+  /** Calls in flight at once */
+  maxConcurrent?: number;
+  /** 'wait' queues the call (default); 'spillover' first tries the next provider in the order */
+  onLimit?: 'wait' | 'spillover';
+}
+
+/** Rules keyed by provider id pattern: exact id, or a glob such as 'openai:*' or '*'. Each matching provider gets its own buckets. */
+export type RateLimitOptions = Record<string, RateLimitRule>;
+
+export type RateLimitReason = 'requests' | 'tokens' | 'concurrency';
+
+export interface RateLimitLease {
+  /** Free the concurrency slot and charge the tokens the call used. Safe to call more than once. */
+  release(tokens?: number): void;
+}
+
+const MINUTE_MS = 60_000;
+
+interface Bucket {
+  capacity: number;
+  level: number;
+  updatedAt: number;
+}
+
+type Waiter = (lease: RateLimitLease) => void;
+
+function createBucket(perMinute: number | undefined, now: number): Bucket | undefined {
+  if (perMinute == null || !Number.isFinite(perMinute) || perMinute <= 0) return undefined;
+  return { capacity: perMinute, level: perMinute, updatedAt: now };
+}
+
+function refill(bucket: Bucket, now: number) {
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  bucket.level = Math.min(bucket.capacity, bucket.level + (elapsed * bucket.capacity) / MINUTE_MS);
+  bucket.updatedAt = now;
+}
+
+/** Milliseconds until the bucket holds at least `needed`. */
+function msUntil(bucket: Bucket, needed: number) {
+  const missing = needed - bucket.level;
+  return missing <= 0 ? 0 : Math.ceil((missing * MINUTE_MS) / bucket.capacity);
+}
+
+function globToRegExp(pattern: string) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+class ProviderLimiter {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private inFlight = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(readonly rule: RateLimitRule) {
+    const now = Date.now();
+    this.requests = createBucket(rule.requestsPerMinute, now);
+    this.tokens = createBucket(rule.tokensPerMinute, now);
+  }
+
+  /** Why a call cannot start right now, or undefined when it can. */
+  blockedBy(now = Date.now()): RateLimitReason | undefined {
+    const max = this.rule.maxConcurrent;
+    if (max != null && max > 0 && this.inFlight >= max) return 'concurrency';
+    if (this.requests) {
+      refill(this.requests, now);
+      if (this.requests.level < 1) return 'requests';
+    }
+    if (this.tokens) {
+      refill(this.tokens, now);
+      if (this.tokens.level < 0) return 'tokens';
+    }
+    return undefined;
+  }
+
+  /** Start a call immediately, or return the blocking reason. Never jumps ahead of queued callers. */
+  tryAcquire(): RateLimitLease | RateLimitReason {
+    const reason = this.queue.length ? this.blockedBy() ?? 'concurrency' : this.blockedBy();
+    return reason ?? this.take();
+  }
+
+  /** Queue until the call can start (FIFO). */
+  acquire(signal?: AbortSignal): Promise<RateLimitLease> {
+    if (signal?.aborted) return Promise.reject(abortedError(signal));
+    return new Promise<RateLimitLease>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((w) => w !== waiter);
+        reject(abortedError(signal));
+        this.pump();
+      };
+      const waiter: Waiter = (lease) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(lease);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  private take(): RateLimitLease {
+    if (this.requests) this.requests.level -= 1;
+    this.inFlight += 1;
+    let released = false;
+    return {
+      release: (tokens?: number) => {
+        if (released) return;
+        released = true;
+        this.inFlight -= 1;
+        if (this.tokens && tokens != null && Number.isFinite(tokens) && tokens > 0) {
+          refill(this.tokens, Date.now());
+          this.tokens.level -= tokens;
+        }
+        this.pump();
+      },
+    };
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    while (this.queue.length) {
+      const now = Date.now();
+      const reason = this.blockedBy(now);
+      if (reason === 'concurrency') return; // a release() pumps again
+      if (reason) {
+        const wait = reason === 'requests' ? msUntil(this.requests!, 1) : msUntil(this.tokens!, 0);
+        this.timer = setTimeout(() => this.pump(), Math.max(1, wait));
+        return;
+      }
+      this.queue.shift()!(this.take());
+    }
+  }
+}
+
+/** Per-provider token buckets and concurrency slots with a FIFO wait queue. */
+export class RateLimiter {
+  private rules: { pattern: string; test: RegExp; rule: RateLimitRule }[];
+  private limiters = new Map<string, ProviderLimiter | null>();
+
+  constructor(options: RateLimitOptions) {
+    this.rules = Object.entries(options).map(([pattern, rule]) => ({ pattern, test: globToRegExp(pattern), rule }));
+  }
+
+  /** The rule for a provider: an exact id wins, otherwise the longest matching pattern. */
+  ruleFor(providerId: string): RateLimitRule | undefined {
+    const exact = this.rules.find((r) => r.pattern === providerId);
+    if (exact) return exact.rule;
+    let best: { pattern: string; rule: RateLimitRule } | undefined;
+    for (const r of this.rules) {
+      if (r.test.test(providerId) && (!best || r.pattern.length > best.pattern.length)) best = r;
+    }
+    return best?.rule;
+  }
+
+  tryAcquire(providerId: string): RateLimitLease | RateLimitReason {
+    const limiter = this.limiter(providerId);
+    return limiter ? limiter.tryAcquire() : { release() {} };
+  }
+
+  acquire(providerId: string, signal?: AbortSignal): Promise<RateLimitLease> {
+    const limiter = this.limiter(providerId);
+    return limiter ? limiter.acquire(signal) : Promise.resolve({ release() {} });
+  }
+
+  spillover(providerId: string) {
+    return this.ruleFor(providerId)?.onLimit === 'spillover';
+  }
+
+  private limiter(providerId: string) {
+    let limiter = this.limiters.get(providerId);
+    if (limiter === undefined) {
+      const rule = this.ruleFor(providerId);
+      limiter = rule ? new ProviderLimiter(rule) : null;
+      this.limiters.set(providerId, limiter);
+    }
+    return limiter;
+  }
+}
@@ -0,0 +1,243 @@
+// packages/core/src/redaction.ts
+import type { RouterPlugin } from './plugins';
+import type { ProviderCallArgs, ProviderResult } from './types';
+
+/** A labelled pattern; the label names reversible placeholders, e.g. `[EMAIL_1]`. */
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface RedactionOptions {
+  enabled?: boolean;
+  /** Patterns to redact (bare RegExps are labelled `REDACTED`). Default: API keys and SSNs. */
+  patterns?: Array<RegExp | RedactionRule>;
+  /** Also redact email addresses (`EMAIL_REDACTION_RULE`) on top of `patterns` (default: false) */
+  emails?: boolean;
+  replaceWith?: string;
+  /**
+   * Replace matches with stable placeholders (`[EMAIL_1]`) and restore them in model outputs and
+   * tool arguments, so tools and callers see real values while the provider never does.
+   */
+  reversible?: boolean;
+  /** Redact tool results before they go back to the model (default: true) */
+  toolResults?: boolean;
+  /** Redact model outputs and streamed tokens (default: false). Reversible mode always restores placeholders instead. */
+  outputs?: boolean;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { name: 'API_KEY', pattern: /sk-[A-Za-z0-9]{10,}/g },
+  { name: 'API_KEY', pattern: /xox[baprs]-[A-Za-z0-9-]{10,}/g },
+  { name: 'API_KEY', pattern: /AKIA[0-9A-Z]{16}/g },
+  { name: 'API_KEY', pattern: /AIza[0-9A-Za-z-_]{20,}/g },
+  { name: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+];
+
+export const EMAIL_REDACTION_RULE: RedactionRule = {
+  name: 'EMAIL',
+  pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+};
+
+const PLACEHOLDER = /\[([A-Z][A-Z0-9_]*_\d+)\]/g;
+/** Longest placeholder a stream restorer holds back while waiting for the closing bracket. */
+const MAX_PLACEHOLDER_LENGTH = 48;
+/** Trailing characters a redacting stream holds back so a secret split across deltas is matched whole. */
+const STREAM_CARRY_LENGTH = 64;
+
+function toRule(entry: RegExp | RedactionRule): RedactionRule {
+  const rule = entry instanceof RegExp ? { name: 'REDACTED', pattern: entry } : entry;
+  const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+  return { name: rule.name.toUpperCase().replace(/[^A-Z0-9_]/g, '_'), pattern: new RegExp(rule.pattern.source, flags) };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function mapDeep(value: unknown, fn: (text: string) => string, seen = new WeakMap<object, unknown>()): unknown {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) {
+    if (seen.has(value)) return seen.get(value);
+    const out: unknown[] = [];
+    seen.set(value, out);
+    for (const item of value) out.push(mapDeep(item, fn, seen));
+    return out;
+  }
+  if (isPlainObject(value)) {
+    if (seen.has(value)) return seen.get(value);
+    const out: Record<string, unknown> = {};
+    seen.set(value, out);
+    for (const [key, item] of Object.entries(value)) out[key] = mapDeep(item, fn, seen);
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Per-route redaction state. In reversible mode the vault maps each secret to a stable
+ * placeholder for the lifetime of the route.
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+  private replacement: string;
+  private byValue = new Map<string, string>();
+  private byPlaceholder = new Map<string, string>();
+  private counters = new Map<string, number>();
+
+  constructor(readonly options: RedactionOptions = {}) {
+    const rules = options.patterns?.length ? options.patterns : DEFAULT_REDACTION_RULES;
+    this.rules = (options.emails ? [...rules, EMAIL_REDACTION_RULE] : rules).map(toRule);
+    this.replacement = options.replaceWith ?? '[REDACTED]';
+  }
+
+  get reversible() {
+    return this.options.reversible === true;
+  }
+
+  redactText(text: string): string {
+    let out = text;
+    for (const rule of this.rules) {
+      out = out.replace(rule.pattern, (match) => (this.reversible ? this.placeholderFor(rule.name, match) : this.replacement));
+    }
+    return out;
+  }
+
+  /** Redact every string inside plain objects and arrays (other values pass through). */
+  redact<T>(value: T): T {
+    return mapDeep(value, (text) => this.redactText(text)) as T;
+  }
+
+  restoreText(text: string): string {
+    if (!this.byPlaceholder.size) return text;
+    return text.replace(PLACEHOLDER, (match, key: string) => this.byPlaceholder.get(key) ?? match);
+  }
+
+  restore<T>(value: T): T {
+    if (!this.byPlaceholder.size) return value;
+    return mapDeep(value, (text) => this.restoreText(text)) as T;
+  }
+
+  /** Everything sent to a provider: prompt, messages, structured input and (by default) tool results. */
+  redactArgs(args: ProviderCallArgs): ProviderCallArgs {
+    const out: ProviderCallArgs = { ...args };
+    if (typeof out.prompt === 'string') out.prompt = this.redactText(out.prompt);
+    if (out.input !== undefined) out.input = this.redact(out.input);
+    if (out.messages?.length) {
+      out.messages = out.messages.map((m) => ({ ...m, content: this.redactText(m.content) }));
+    }
+    if (out.toolResults?.length && this.options.toolResults !== false) {
+      out.toolResults = out.toolResults.map((r) => ({ ...r, output: this.redact(r.output) }));
+    }
+    return out;
+  }
+
+  /** What comes back from a provider: restore placeholders (reversible) or redact echoed secrets. */
+  processResult(result: ProviderResult): ProviderResult {
+    const out: ProviderResult = { ...result };
+    if (this.reversible) {
+      if (out.output !== undefined) out.output = this.restore(out.output);
+      if (out.toolCalls?.length) out.toolCalls = out.toolCalls.map((c) => ({ ...c, args: this.restore(c.args) }));
+      return out;
+    }
+    if (out.output !== undefined && this.options.outputs === true) out.output = this.redact(out.output);
+    return out;
+  }
+
+  /**
+   * Token-stream filter for the caller: restores placeholders (reversible) or redacts matches
+   * (`outputs: true`). Holds back a trailing partial placeholder, or the last few characters
+   * while redacting, so nothing is split across deltas; call `flush()` at the end.
+   */
+  createStreamFilter(emit: (delta: string) => void) {
+    let pending = '';
+    return {
+      push: (delta: string) => {
+        if (!this.reversible) {
+          if (this.options.outputs !== true) return emit(delta);
+          const text = pending + delta;
+          const cut = this.safeCut(text, text.length - STREAM_CARRY_LENGTH);
+          pending = text.slice(cut);
+          if (cut > 0) emit(this.redactText(text.slice(0, cut)));
+          return;
+        }
+        const text = pending + delta;
+        const open = text.lastIndexOf('[');
+        const held = open >= 0 && !text.includes(']', open) && text.length - open < MAX_PLACEHOLDER_LENGTH;
+        pending = held ? text.slice(open) : '';
+        const ready = held ? text.slice(0, open) : text;
+        if (ready) emit(this.restoreText(ready));
+      },
+      flush: () => {
+        if (pending) emit(this.reversible ? this.restoreText(pending) : this.redactText(pending));
+        pending = '';
+      },
+    };
+  }
+
+  /** Move `cut` back to the start of any match that spans it. */
+  private safeCut(text: string, cut: number) {
+    let safe = Math.max(0, cut);
+    for (let moved = true; moved && safe > 0; ) {
+      moved = false;
+      for (const rule of this.rules) {
+        for (const match of text.matchAll(rule.pattern)) {
+          const start = match.index ?? 0;
+          if (start < safe && start + match[0].length > safe) {
+            safe = start;
+            moved = true;
+          }
+        }
+      }
+    }
+    return safe;
+  }
+
+  private placeholderFor(name: string, value: string) {
+    const existing = this.byValue.get(value);
+    if (existing) return `[${existing}]`;
+    const n = (this.counters.get(name) ?? 0) + 1;
+    this.counters.set(name, n);
+    const key = `${name}_${n}`;
+    this.byValue.set(value, key);
+    this.byPlaceholder.set(key, value);
+    return `[${key}]`;
+  }
+}
+
+/** A redactor for one route, or undefined when redaction is off. */
+export function createRedactor(options?: RedactionOptions): Redactor | undefined {
+  if (!options || options.enabled === false) return undefined;
+  return new Redactor(options);
+}
+
+/**
+ * Built-in plugin behind `RouterOptions.redaction`: one redactor per route (route hints merge
+ * over `options`) applied to provider arguments, results, the caller's stream and trace previews.
+ */
+export function createRedactionPlugin(options?: RedactionOptions): RouterPlugin {
+  const redactors = new WeakMap<object, Redactor>();
+  return {
+    name: 'bolt:redaction',
+    beforeRoute(ctx) {
+      const redactor = createRedactor(ctx.hints.redaction ? { ...options, ...ctx.hints.redaction } : options);
+      if (redactor) redactors.set(ctx.state, redactor);
+    },
+    beforeProviderCall(args, ctx) {
+      const redactor = redactors.get(ctx.state);
+      return redactor ? { args: redactor.redactArgs(args) } : undefined;
+    },
+    afterProviderCall(result, ctx) {
+      const redactor = redactors.get(ctx.state);
+      return redactor ? { result: redactor.processResult(result) } : undefined;
+    },
+    streamFilter(emit, ctx) {
+      return redactors.get(ctx.state)?.createStreamFilter(emit);
+    },
+    sanitizeTrace(text, ctx) {
+      return redactors.get(ctx.state)?.redactText(text);
+    },
+  };
+}
@@ -1,7 +1,42 @@
 // packages/core/src/router.ts
 
-import { BoltError } from './errors';
-import { EventBus, type TraceEvent } from './events';
+import {
+  suspendedRunKey,
+  toolRequiresApproval,
+  type ApproveToolCall,
+  type PendingToolApproval,
+  type RunJournal,
+  type SuspendedRun,
+  type ToolApprovalDecision,
+} from './approvals';
+import {
+  breakerTransitionEvent,
+  CircuitBreaker,
+  createBreakerPlugin,
+  type BreakerState,
+  type BreakerStatus,
+  type BreakerTransition,
+  type CircuitBreakerOptions,
+} from './breaker';
+import { createBudgetPlugin, mergeBudget, type BudgetPlugin } from './budgets';
+import { abortedError, BoltError, isAbortedError } from './errors';
+import { createRedactionPlugin, createRedactor, type RedactionOptions } from './redaction';
+import { createGuardrailPlugin, isGuardError, type GuardrailOptions } from './guardrails';
+import { PluginPipeline, type PluginRouteContext, type RouterPlugin } from './plugins';
+import { validateSchema } from './schema';
+import { UsageTracker, type RunUsage } from './usage';
+import {
+  autoPresetForInput,
+  inputToText,
+  type ClassifyContext,
+  type InputClassification,
+  type PresetClassifier,
+  type RoutePreset,
+} from './classifier';
+import { createQuotaPlugin, QuotaManager, type QuotaOptions, type QuotaPeriod, type QuotaUsage } from './quotas';
+import { RateLimiter, type RateLimitLease, type RateLimitOptions } from './rateLimit';
+import { callImages, IMAGE_TOKEN_ESTIMATE, inputHasImages, loadCallImages } from './vision';
+import { createEventsPlugin, EventBus, type TraceEvent } from './events';
 import type { Template } from './templates';
 import type {
   Agent,
@@ -14,20 +49,32 @@ import type {
   ProviderToolResult,
   Plan,
   Budget,
+  Capability,
+  EmbedRequest,
+  EmbeddingResult,
+  GeneratedImage,
+  ImageRequest,
+  ImageResult,
   Tool,
   ToolContext,
   ToolRegistry,
 } from './types';
 
 export type ProviderPreset = 'fast' | 'cheap' | 'strict' | 'auto';
-type FixedPreset = Exclude<ProviderPreset, 'auto'>;
 
-const PRESET_PROVIDER_ORDER: Record<FixedPreset, string[]> = {
+const PRESET_PROVIDER_ORDER: Record<RoutePreset, string[]> = {
   fast: ['groq', 'openai', 'anthropic', 'google', 'azure', 'mistral'],
   cheap: ['groq', 'openai', 'mistral', 'anthropic', 'google', 'azure'],
   strict: ['openai', 'anthropic', 'google', 'azure', 'mistral', 'groq'],
 };
 
+// API key variables per provider id prefix; other prefixes are checked as `<PREFIX>_API_KEY`.
+const PROVIDER_ENV_KEYS: Record<string, string[]> = {
+  openai: ['OPENAI_API_KEY'],
+  gemini: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  groq: ['GROQ_API_KEY'],
+};
+
 function parseProviderOrder(raw?: string | null): string[] {
   if (!raw) return [];
   return raw
@@ -50,82 +97,6 @@ function matchProviderId(id: string, token: string) {
   return id.startsWith(token);
 }
 
-function minDefined(a?: number, b?: number): number | undefined {
-  if (a == null) return b;
-  if (b == null) return a;
-  return Math.min(a, b);
-}
-
-function mergeBudget(base?: Budget, override?: Budget): Budget | undefined {
-  if (!base && !override) return undefined;
-  return {
-    maxLatencyMs: minDefined(base?.maxLatencyMs, override?.maxLatencyMs),
-    maxCostUSD: minDefined(base?.maxCostUSD, override?.maxCostUSD),
-  };
-}
-
-const DEFAULT_SENSITIVE_PATTERNS: RegExp[] = [
-  /\bmedical\b/i,
-  /\bdiagnos/i,
-  /\bhealth\b/i,
-  /\bpatient\b/i,
-  /\bhipaa\b/i,
-  /\bphi\b/i,
-  /\blegal\b/i,
-  /\battorney\b/i,
-  /\blawsuit\b/i,
-  /\btax\b/i,
-  /\bfinance\b/i,
-  /\bbank\b/i,
-  /\bcredit card\b/i,
-  /\bssn\b/i,
-  /\bsocial security\b/i,
-  /\bpassword\b/i,
-  /\bapi key\b/i,
-  /\bsecret\b/i,
-  /\bconfidential\b/i,
-  /\bpii\b/i,
-  /\baccount number\b/i,
-];
-
-const DEFAULT_REDACTION_PATTERNS: RegExp[] = [
-  /sk-[A-Za-z0-9]{10,}/g,
-  /xox[baprs]-[A-Za-z0-9-]{10,}/g,
-  /AKIA[0-9A-Z]{16}/g,
-  /AIza[0-9A-Za-z-_]{20,}/g,
-  /\b\d{3}-\d{2}-\d{4}\b/g,
-];
-
-function inputToText(input: unknown): string {
-  if (typeof input === 'string') return input;
-  if (input == null) return '';
-  try {
-    return JSON.stringify(input);
-  } catch {
-    return String(input);
-  }
-}
-
-function autoPresetForInput(input: unknown): FixedPreset {
-  const text = inputToText(input);
-  for (const pattern of DEFAULT_SENSITIVE_PATTERNS) {
-    if (pattern.test(text)) return 'strict';
-  }
-  return 'fast';
-}
-
-function resolvePreset(
-  preset: ProviderPreset | undefined,
-  input: unknown,
-  agent: Agent | undefined,
-  classify?: (input: unknown, agent?: Agent) => FixedPreset
-): FixedPreset | undefined {
-  if (!preset) return undefined;
-  if (preset !== 'auto') return preset;
-  if (classify) return classify(input, agent);
-  return autoPresetForInput(input);
-}
-
 function policyToPreset(policy?: RouteHints['policy']): ProviderPreset | undefined {
   if (!policy) return undefined;
   if (policy === 'sensitive' || policy === 'strict') return 'strict';
@@ -146,32 +117,128 @@ function extractRouteHints(input: unknown): { hints: RouteHints; input: unknown
   return { hints: {}, input };
 }
 
-function redactText(value: string, patterns: RegExp[], replacement: string): string {
-  let out = value;
-  for (const pattern of patterns) {
-    out = out.replace(pattern, replacement);
-  }
-  return out;
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429]);
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+function errorStatus(err: any): number | undefined {
+  const raw = err?.status ?? err?.statusCode ?? err?.response?.status ?? err?.cause?.status;
+  const status = Number(raw);
+  return Number.isFinite(status) && status > 0 ? status : undefined;
 }
 
-function applyRedaction(args: ProviderCallArgs, options?: RedactionOptions): ProviderCallArgs {
-  if (!options) return args;
-  if (options.enabled === false) return args;
-  const patterns = options.patterns?.length ? options.patterns : DEFAULT_REDACTION_PATTERNS;
-  const replacement = options.replaceWith ?? '[REDACTED]';
-  const out: ProviderCallArgs = { ...args };
-  if (typeof out.prompt === 'string') {
-    out.prompt = redactText(out.prompt, patterns, replacement);
-  }
-  if (typeof out.input === 'string') {
-    out.input = redactText(out.input, patterns, replacement);
+/** Default failover classification: rate limits, 5xx, timeouts and network errors move to the next provider. */
+export function isRetryableProviderError(err: unknown): boolean {
+  const e = err as any;
+  if (!e) return false;
+  if (e instanceof BoltError) return false;
+  if (e.name === 'AbortError') return false;
+  const status = errorStatus(e);
+  if (status != null) return status >= 500 || RETRYABLE_STATUS_CODES.has(status);
+  const code = e.code ?? e.cause?.code;
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) return true;
+  // No status or code: treat unknown provider/SDK failures as transient.
+  return true;
+}
+
+function normalizeFailover(value?: boolean | FailoverOptions): Required<Pick<FailoverOptions, 'maxAttempts'>> &
+  FailoverOptions | undefined {
+  if (!value) return undefined;
+  const opts = value === true ? {} : value;
+  if (opts.enabled === false) return undefined;
+  const maxAttempts =
+    typeof opts.maxAttempts === 'number' && Number.isFinite(opts.maxAttempts)
+      ? Math.max(1, Math.floor(opts.maxAttempts))
+      : Number.POSITIVE_INFINITY;
+  return { ...opts, maxAttempts };
+}
+
+function makeCallId(kind: string) {
+  return `${kind}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isEmbeddingBatch(output: unknown, count: number): output is number[][] {
+  return (
+    Array.isArray(output) &&
+    output.length === count &&
+    output.every((v) => Array.isArray(v) && v.every((n) => typeof n === 'number'))
+  );
+}
+
+/**
+ * Rough prompt size (~4 characters per token) across prompt or messages, input and tool results.
+ * `messages` carries the same text as the flattened `prompt`, so only one of the two is counted.
+ */
+export function estimatePromptTokens(args: ProviderCallArgs): number {
+  let chars = 0;
+  if (args.messages?.length) for (const m of args.messages) chars += m.content.length;
+  else chars += (args.prompt ?? '').length;
+  for (const text of args.texts ?? []) chars += text.length;
+  if (args.input != null) chars += typeof args.input === 'string' ? args.input.length : safeJsonLength(args.input);
+  if (args.toolResults?.length) chars += safeJsonLength(args.toolResults);
+  return Math.ceil(chars / 4) + callImages(args).length * IMAGE_TOKEN_ESTIMATE;
+}
+
+function safeJsonLength(value: unknown) {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
   }
-  return out;
+}
+
+function countPromptTokens(provider: ModelProvider, args: ProviderCallArgs) {
+  const counted = provider.countTokens?.(args);
+  return counted != null && Number.isFinite(counted) ? counted : estimatePromptTokens(args);
+}
+
+function resolveHedge(value: number | HedgeOptions | undefined, budget?: Budget) {
+  if (value == null) return undefined;
+  const opts = typeof value === 'number' ? { delayMs: value } : value;
+  if (opts.enabled === false) return undefined;
+  const delayMs = opts.delayMs ?? (budget?.maxLatencyMs != null ? budget.maxLatencyMs / 2 : undefined);
+  if (delayMs == null || !Number.isFinite(delayMs) || delayMs < 0) return undefined;
+  const maxHedges =
+    typeof opts.maxHedges === 'number' && Number.isFinite(opts.maxHedges) ? Math.max(0, Math.floor(opts.maxHedges)) : 1;
+  return { delayMs, maxHedges };
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortedError(signal);
+}
+
+/** Reject as soon as the signal fires, even if the underlying work ignores it. */
+function raceAbort<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return work;
+  if (signal.aborted) return Promise.reject(abortedError(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortedError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(signal.aborted ? abortedError(signal, err) : err);
+      }
+    );
+  });
 }
 
 function resolveProviderOrder(options: {
   providerOrder?: string[];
-  preset?: FixedPreset;
+  preset?: RoutePreset;
   providers: ModelProvider[];
 }) {
   const order = options.providerOrder?.length
@@ -205,20 +272,29 @@ export interface AppRouter {
     agentId: string;
     input: unknown;
     memoryScope?: string;
+    /** Tenant charged against `RouterOptions.quotas` (default: derived from `memoryScope`) */
+    tenantId?: string;
     onToken?: (delta: string) => void;
+    /** Cancels in-flight provider calls, tool calls and the agent run (rejects with an `ABORTED` BoltError). */
+    signal?: AbortSignal;
+    /** Receives the run's token, cost and latency report once the agent finishes (or fails). */
+    onUsage?: (usage: RunUsage) => void;
+  }): Promise<any>;
+
+  /**
+   * Continue a run suspended on tool approvals (`RUN_SUSPENDED`). Decisions are keyed by tool call id;
+   * recorded provider and tool results are replayed, so approved side effects run exactly once.
+   */
+  resume?(req: {
+    id: string;
+    decisions: Record<string, ToolApprovalDecision>;
+    onToken?: (delta: string) => void;
+    signal?: AbortSignal;
+    onUsage?: (usage: RunUsage) => void;
   }): Promise<any>;
 
   /** Introspect how a route would execute (no model calls). */
-  explain(args: { agentId: string; input?: unknown; memoryScope?: string }): Promise<{
-    ok: boolean;
-    reason: string;
-    agentId: string;
-    agents: string[];
-    provider: string;
-    providers: string[];
-    memory: string;
-    env: { GROQ_API_KEY: boolean; REDIS_URL: boolean };
-  }>;
+  explain(args: { agentId: string; input?: unknown; memoryScope?: string }): Promise<RouteExplanation>;
 
   /** Register multiple agents (id -> Agent). */
   registerAgents(map: Record<string, Agent>): void;
@@ -232,6 +308,10 @@ export interface AppRouter {
   /** Event stream for observability. */
   readonly events: EventBus;
 
+  /** Tenant quota counters for the current day and month (admin). */
+  getQuotaUsage?(tenantId: string): Promise<QuotaUsage>;
+  resetQuota?(tenantId: string, period?: QuotaPeriod): Promise<void>;
+
   /** Template helpers (deterministic planners). */
   registerTemplates?(map: Record<string, Template>): void;
   listTemplates?(): string[];
@@ -239,17 +319,36 @@ export interface AppRouter {
     templateId: string,
     ctx: { goal: any; agentId: string; memoryScope?: string; params?: Record<string, any> }
   ): Promise<Plan | null>;
+
+  /** Embed texts (batched, one provider for the whole request) on a provider with the 'embedding' capability. */
+  embed?(req: EmbedRequest & { id?: string }): Promise<EmbeddingResult>;
+  /** Generate images on a provider with the 'image' capability. */
+  generateImage?(req: ImageRequest & { id?: string }): Promise<ImageResult>;
 }
 
-export interface CircuitBreakerOptions {
-  failureThreshold: number;
-  cooldownMs: number;
+export interface FailoverOptions {
+  enabled?: boolean;
+  /** Maximum providers tried per provider call, including the first (default: every candidate). */
+  maxAttempts?: number;
+  /** Decide whether an error moves the call to the next provider (default: `isRetryableProviderError`). */
+  isRetryable?: (error: unknown, provider: ModelProvider) => boolean;
+}
+
+export interface ToolCallOptions {
+  /** Tool calls from one model turn run in parallel up to this many at once (default: 4) */
+  concurrency?: number;
+  /** Default per-call timeout; `Tool.timeoutMs` overrides it */
+  timeoutMs?: number;
+  /** Send failures back to the model as `isError` tool results instead of failing the route (default: false) */
+  returnErrors?: boolean;
 }
 
-export interface RedactionOptions {
+export interface HedgeOptions {
   enabled?: boolean;
-  patterns?: RegExp[];
-  replaceWith?: string;
+  /** Wait this long for a first token or result before racing the next candidate (default: half of `Budget.maxLatencyMs`). */
+  delayMs?: number;
+  /** Extra providers raced per call (default: 1) */
+  maxHedges?: number;
 }
 
 export interface RouteHints {
@@ -258,6 +357,53 @@ export interface RouteHints {
   policy?: 'sensitive' | 'strict' | 'fast' | 'cheap';
   budget?: Budget;
   redaction?: RedactionOptions;
+  hedge?: number | HedgeOptions;
+}
+
+/** Where a route's preset came from. */
+export interface PresetDecision {
+  /** Preset that ordered the providers (after 'auto' classification) */
+  preset?: RoutePreset;
+  /** 'auto' means the classifier picked `preset`; `autoFrom` says where 'auto' was configured */
+  source: 'hint' | 'option' | 'env' | 'auto' | 'none';
+  autoFrom?: 'hint' | 'option' | 'env';
+  classification?: InputClassification;
+}
+
+export interface ProviderCandidateDecision {
+  id: string;
+  /** Required capabilities the provider lacks */
+  missingCapabilities: Capability[];
+  breaker: BreakerStatus;
+  /** Passes capability and health filtering */
+  eligible: boolean;
+}
+
+/** `Router.explain` result: every input to provider selection, without calling a model. */
+export interface RouteExplanation {
+  ok: boolean;
+  reason: string;
+  agentId: string;
+  agents: string[];
+  /** First provider the route would call ('none' when nothing is eligible) */
+  provider: string;
+  /** Why the order starts where it does (agent model pin, route hint, preset, ...). */
+  providerReason: string;
+  /** Provider order before capability and health filtering */
+  providers: string[];
+  /** Route hint fields found on the input (`__bolt`) */
+  hints: Array<keyof RouteHints>;
+  preset: PresetDecision;
+  orderSource: 'hint' | 'option' | 'env' | 'preset' | 'registration';
+  requiredCapabilities: Capability[];
+  candidates: ProviderCandidateDecision[];
+  /** Provider order after capability and health filtering */
+  eligibleProviders: string[];
+  /** The agent's declared tools, split by whether the registry has them */
+  agentTools: { declared: string[]; available: string[]; missing: string[] };
+  memory: string;
+  /** Detected API keys for the bundled adapters and every registered provider prefix, plus REDIS_URL */
+  env: Record<string, boolean>;
 }
 
 export type RouteCostEstimator = (args: {
@@ -266,19 +412,43 @@ export type RouteCostEstimator = (args: {
   result: ProviderResult;
 }) => number;
 
+/** Builds a provider for a model name, e.g. `(model) => createGroqProvider({ model })`. */
+export type ProviderFactory = (model: string) => ModelProvider;
+
 export interface RouterOptions {
   providers: ModelProvider[];
+  /** Provider factories keyed by id prefix; used to instantiate `provider:model` pins from `Agent.model`. */
+  providerFactories?: Record<string, ProviderFactory>;
   memory: MemoryStore;
   tools?: ToolRegistry;
   events?: EventBus;
   providerOrder?: string[];
   preset?: ProviderPreset;
   circuitBreaker?: CircuitBreakerOptions;
+  /** Retry failed provider calls on the next capable, healthy provider in preset/order. */
+  failover?: boolean | FailoverOptions;
+  /** Requests/min, tokens/min and in-flight limits keyed by provider id pattern ('openai', 'groq:*', '*'). */
+  rateLimits?: RateLimitOptions;
+  /** Race the next candidate when the first has not answered within a delay (a number is the delay in ms). */
+  hedge?: number | HedgeOptions;
   budget?: Budget;
   costEstimator?: RouteCostEstimator;
   redaction?: RedactionOptions;
+  /** Input/output content checks that block, flag or rewrite; agents add their own via `Agent.guards` */
+  guardrails?: GuardrailOptions;
   maxToolCallIterations?: number;
-  classify?: (input: unknown, agent?: Agent) => Exclude<ProviderPreset, 'auto'>;
+  /** Concurrency, timeouts and error handling for provider-native tool calls */
+  toolCalls?: ToolCallOptions;
+  /** Reviews calls to tools with `requiresApproval`; without it such calls suspend the run. */
+  approveToolCall?: ApproveToolCall;
+  /** Texts per embedding call (default: 96) */
+  embeddingBatchSize?: number;
+  /** Daily/monthly token and USD limits per tenant, counted in `memory` and checked before each provider call */
+  quotas?: QuotaOptions;
+  /** Picks the preset for 'auto' routes (default: keyword patterns); see `createLLMClassifier` */
+  classify?: PresetClassifier;
+  /** Route middleware, run in order after the built-in events, redaction, guardrail, breaker, quota and budget plugins */
+  plugins?: RouterPlugin[];
 }
 
 function createScopedToolRegistry(options: {
@@ -286,18 +456,23 @@ function createScopedToolRegistry(options: {
   registry?: ToolRegistry;
   memory: MemoryStore;
   signal?: AbortSignal;
+  /** Wraps each run (used to emit tool:call:* events for agent-initiated calls) */
+  trace?: <T>(toolId: string, args: unknown, run: (args: unknown) => Promise<T>) => Promise<T>;
 }): ToolRegistry {
   const allowed = new Set(options.agent.tools ?? []);
   const isAllowed = (id: string) => allowed.has(id);
   const wrap = (tool: Tool): Tool => ({
     ...tool,
-    run: async (args: any, ctx: ToolContext = {}) =>
-      tool.run(args, {
-        ...ctx,
-        allow: options.agent.tools,
-        memory: ctx.memory ?? options.memory,
-        signal: ctx.signal ?? options.signal,
-      }),
+    run: async (args: any, ctx: ToolContext = {}) => {
+      const run = (callArgs: unknown) =>
+        tool.run(callArgs, {
+          ...ctx,
+          allow: options.agent.tools,
+          memory: ctx.memory ?? options.memory,
+          signal: ctx.signal ?? options.signal,
+        });
+      return options.trace ? options.trace(tool.id, args, run) : run(args);
+    },
   });
 
   return {
@@ -315,6 +490,15 @@ function createScopedToolRegistry(options: {
   };
 }
 
+/** Route state a capability call (`ctx.embed`, `ctx.generateImage`) runs under. */
+interface CapabilityScope {
+  redaction?: RedactionOptions;
+  /** The route's tracker; the call counts toward its `RunUsage` */
+  usage?: UsageTracker;
+  /** Tenant checked and charged against `RouterOptions.quotas` */
+  tenantId?: string;
+}
+
 /** Internal: guards a dynamic global read (Next bundles agents/templates into globals) */
 function readGlobalBag<T>(key: string): Record<string, T> {
   const g = globalThis as any;
@@ -330,14 +514,24 @@ export class Router implements AppRouter {
   private memory: MemoryStore;
   private preset?: ProviderPreset;
   private providerOrder?: string[];
-  private circuitBreaker?: CircuitBreakerOptions;
-  private budget?: Budget;
+  private breaker?: CircuitBreaker;
+  private failover?: ReturnType<typeof normalizeFailover>;
+  private rateLimiter?: RateLimiter;
+  private hedge?: number | HedgeOptions;
+  private budgets: BudgetPlugin;
   private costEstimator?: RouteCostEstimator;
   private redaction?: RedactionOptions;
-  private classify?: (input: unknown, agent?: Agent) => FixedPreset;
+  private plugins: PluginPipeline;
+  private classify?: PresetClassifier;
   private tools?: ToolRegistry;
+  private providerFactories: Record<string, ProviderFactory>;
+  private modelProviders = new Map<string, ModelProvider>();
   private maxToolCallIterations: number;
-  private breakerState = new Map<string, { failures: number; openUntil?: number }>();
+  private toolCallOptions: ToolCallOptions;
+  private approveToolCall?: ApproveToolCall;
+  private quotas: QuotaManager;
+  private embeddingBatchSize: number;
+  private quotasEnabled: boolean;
 
   // optional local template registry (apps can also publish via global)
   private templates = new Map<string, Template>();
@@ -345,9 +539,13 @@ export class Router implements AppRouter {
   constructor(opts: RouterOptions) {
     this.preset = opts.preset;
     this.providers = opts.providers ?? [];
+    this.providerFactories = opts.providerFactories ?? {};
     this.providerOrder = opts.providerOrder;
-    this.circuitBreaker = opts.circuitBreaker;
-    this.budget = opts.budget;
+    this.breaker = opts.circuitBreaker ? new CircuitBreaker(opts.circuitBreaker) : undefined;
+    this.failover = normalizeFailover(opts.failover);
+    this.rateLimiter = opts.rateLimits ? new RateLimiter(opts.rateLimits) : undefined;
+    this.hedge = opts.hedge;
+    this.budgets = createBudgetPlugin(opts.budget);
     this.costEstimator = opts.costEstimator;
     this.redaction = opts.redaction;
     this.classify = opts.classify;
@@ -356,7 +554,24 @@ export class Router implements AppRouter {
       typeof opts.maxToolCallIterations === 'number' && Number.isFinite(opts.maxToolCallIterations)
         ? Math.max(0, Math.floor(opts.maxToolCallIterations))
         : 4;
+    this.toolCallOptions = opts.toolCalls ?? {};
+    this.approveToolCall = opts.approveToolCall;
+    this.embeddingBatchSize = Math.max(1, Math.floor(opts.embeddingBatchSize ?? 96));
     this.memory = opts.memory;
+    // Without quota options the manager only serves admin reads/resets; nothing is counted.
+    this.quotas = new QuotaManager(this.memory, opts.quotas);
+    this.quotasEnabled = Boolean(opts.quotas);
+    const emit = (event: TraceEvent) => this.events.emit(event);
+    // Provider choice (breaker admission, budget downgrades, failover, hedging, rate limits) stays in `route`.
+    this.plugins = new PluginPipeline([
+      createEventsPlugin(emit, (text, ctx) => this.plugins.sanitizeTrace(text, ctx)),
+      createRedactionPlugin(opts.redaction),
+      createGuardrailPlugin(opts.guardrails, emit),
+      ...(this.breaker ? [createBreakerPlugin(this.breaker, emit)] : []),
+      ...(opts.quotas ? [createQuotaPlugin(this.quotas)] : []),
+      this.budgets,
+      ...(opts.plugins ?? []),
+    ]);
     this.events = opts.events ?? new EventBus();
   }
 
@@ -374,62 +589,210 @@ export class Router implements AppRouter {
   }
 
   private resolveProviders(agent?: Agent, input?: unknown, hints: RouteHints = {}): ModelProvider[] {
-    const envOrder = parseProviderOrder(process.env.BOLT_PROVIDER_ORDER);
-    const envPreset = normalizePreset(process.env.BOLT_PRESET);
+    return this.resolveSelection(agent, input, hints).providers;
+  }
+
+  private basePreset(hints: RouteHints): ProviderPreset | undefined {
+    return this.presetSource(hints).preset;
+  }
+
+  private presetSource(hints: RouteHints): { preset?: ProviderPreset; source: 'hint' | 'option' | 'env' | 'none' } {
     const hintPreset = normalizePreset(hints.preset) ?? policyToPreset(hints.policy);
-    const basePreset = hintPreset ?? this.preset ?? envPreset;
-    const effectivePreset = resolvePreset(basePreset, input, agent, this.classify);
+    if (hintPreset) return { preset: hintPreset, source: 'hint' };
+    if (this.preset) return { preset: this.preset, source: 'option' };
+    const envPreset = normalizePreset(process.env.BOLT_PRESET);
+    return envPreset ? { preset: envPreset, source: 'env' } : { source: 'none' };
+  }
+
+  /** Agent capabilities, plus 'vision' when the input carries image parts. */
+  private requiredCapabilities(agent: Agent | undefined, input: unknown): Capability[] {
+    const required: Capability[] = agent?.capabilities?.length ? [...agent.capabilities] : [];
+    if (inputHasImages(input) && !required.includes('vision')) required.push('vision');
+    return required;
+  }
+
+  /** Classify an 'auto' route; undefined when the route has a fixed preset (or none). */
+  private async classifyRoute(
+    agent: Agent | undefined,
+    input: unknown,
+    hints: RouteHints,
+    ctx: ClassifyContext = {}
+  ): Promise<InputClassification | undefined> {
+    if (this.basePreset(hints) !== 'auto') return undefined;
+    if (!this.classify) return { preset: autoPresetForInput(input), source: 'regex' };
+    const result = await this.classify(input, agent, ctx);
+    return typeof result === 'string' ? { preset: result, source: 'custom' } : result;
+  }
+
+  /** Provider order for a route plus a human-readable reason for the first pick. */
+  private resolveSelection(
+    agent?: Agent,
+    input?: unknown,
+    hints: RouteHints = {},
+    classification?: InputClassification
+  ): {
+    providers: ModelProvider[];
+    reason: string;
+    preset: PresetDecision;
+    orderSource: RouteExplanation['orderSource'];
+  } {
+    const envOrder = parseProviderOrder(process.env.BOLT_PROVIDER_ORDER);
+    const base = this.presetSource(hints);
+    // Without a classification (e.g. listProviders) 'auto' falls back to the keyword patterns.
+    const auto: InputClassification | undefined =
+      base.preset === 'auto' ? (classification ?? { preset: autoPresetForInput(input), source: 'regex' }) : undefined;
+    const effectivePreset = auto ? auto.preset : (base.preset as RoutePreset | undefined);
+    const preset: PresetDecision =
+      auto && base.source !== 'none'
+        ? { preset: auto.preset, source: 'auto', autoFrom: base.source, classification: auto }
+        : { preset: effectivePreset, source: base.source };
+    const hintOrder = hints.providerOrder && hints.providerOrder.length ? hints.providerOrder : undefined;
+    const optionOrder = this.providerOrder && this.providerOrder.length ? this.providerOrder : undefined;
     const order =
-      (hints.providerOrder && hints.providerOrder.length ? hints.providerOrder : undefined) ??
-      (this.providerOrder && this.providerOrder.length ? this.providerOrder : undefined) ??
+      hintOrder ??
+      optionOrder ??
       (envOrder.length ? envOrder : undefined) ??
       (effectivePreset ? PRESET_PROVIDER_ORDER[effectivePreset] : undefined) ??
       [];
-    return resolveProviderOrder({ providers: this.providers, providerOrder: order });
+    const orderSource: RouteExplanation['orderSource'] = hintOrder
+      ? 'hint'
+      : optionOrder
+        ? 'option'
+        : envOrder.length
+          ? 'env'
+          : effectivePreset
+            ? 'preset'
+            : 'registration';
+    const orderReason = {
+      hint: 'route hint providerOrder',
+      option: 'router providerOrder',
+      env: 'BOLT_PROVIDER_ORDER',
+      preset: `preset '${effectivePreset}'`,
+      registration: 'registration order',
+    }[orderSource];
+    const providers = resolveProviderOrder({ providers: this.providers, providerOrder: order });
+
+    const pin = this.resolveAgentModel(agent);
+    if (pin.provider) {
+      const pinned = pin.provider;
+      return {
+        providers: [pinned, ...providers.filter((p) => p.id !== pinned.id)],
+        reason: `${pin.reason}; fallback by ${orderReason}`,
+        preset,
+        orderSource,
+      };
+    }
+    return {
+      providers,
+      reason: pin.reason ? `${pin.reason}; using ${orderReason}` : orderReason,
+      preset,
+      orderSource,
+    };
   }
 
-  private isProviderHealthy(providerId: string): boolean {
-    if (!this.circuitBreaker) return true;
-    const state = this.breakerState.get(providerId);
-    if (!state) return true;
-    if (state.openUntil && Date.now() < state.openUntil) return false;
-    if (state.openUntil && Date.now() >= state.openUntil) {
-      this.breakerState.set(providerId, { failures: 0 });
+  /**
+   * Resolve an agent's `model` pin: an exact provider id ('groq:llama-3.3-70b-versatile'),
+   * a provider prefix ('groq'), or a `provider:model` pattern instantiated via `providerFactories`.
+   */
+  private resolveAgentModel(agent?: Agent): { provider?: ModelProvider; reason?: string } {
+    const model = agent?.model?.trim();
+    if (!agent || !model) return {};
+    const pool = [...this.providers, ...this.modelProviders.values()];
+    const exact = pool.find((p) => p.id === model);
+    if (exact) return { provider: exact, reason: `agent '${agent.id}' pins model '${model}'` };
+
+    const sep = model.indexOf(':');
+    if (sep < 0) {
+      const family = pool.find((p) => p.id.startsWith(`${model}:`));
+      if (family) return { provider: family, reason: `agent '${agent.id}' pins provider '${model}'` };
+      return { reason: `agent model '${model}' unavailable` };
     }
-    return true;
-  }
 
-  private recordProviderFailure(providerId: string) {
-    if (!this.circuitBreaker) return;
-    const state = this.breakerState.get(providerId) ?? { failures: 0 };
-    state.failures += 1;
-    if (state.failures >= this.circuitBreaker.failureThreshold) {
-      state.openUntil = Date.now() + this.circuitBreaker.cooldownMs;
+    const prefix = model.slice(0, sep);
+    const modelName = model.slice(sep + 1);
+    const factory = this.providerFactories[prefix];
+    if (!factory || !modelName) return { reason: `agent model '${model}' unavailable` };
+    try {
+      const created = factory(modelName);
+      this.modelProviders.set(model, created);
+      return {
+        provider: created,
+        reason: `agent '${agent.id}' pins model '${model}' (instantiated via providerFactories.${prefix})`,
+      };
+    } catch (err: any) {
+      return { reason: `agent model '${model}' unavailable (${String(err?.message ?? err)})` };
     }
-    this.breakerState.set(providerId, state);
   }
 
-  private recordProviderSuccess(providerId: string) {
-    if (!this.circuitBreaker) return;
-    this.breakerState.set(providerId, { failures: 0 });
+  /** Current circuit breaker state for a provider (closed when no breaker is configured). */
+  async getBreakerState(providerId: string): Promise<BreakerState> {
+    if (!this.breaker) return { status: 'closed', failures: 0, probes: 0, successes: 0 };
+    return this.breaker.state(providerId);
   }
 
-  private pickProvider(agent: Agent | undefined, input?: unknown, hints: RouteHints = {}): ModelProvider {
-    const required = agent?.capabilities?.length ? agent.capabilities : [];
-    const ordered = this.resolveProviders(agent, input, hints);
+  async getQuotaUsage(tenantId: string): Promise<QuotaUsage> {
+    return this.quotas.usage(tenantId);
+  }
+
+  /** Zero a tenant's current day and/or month counters. */
+  async resetQuota(tenantId: string, period?: QuotaPeriod): Promise<void> {
+    await this.quotas.reset(tenantId, period);
+  }
+
+  private async isProviderHealthy(providerId: string): Promise<boolean> {
+    if (!this.breaker) return true;
+    return this.breaker.canRequest(providerId);
+  }
+
+  private emitBreakerTransition(id: string, providerId: string, transition?: BreakerTransition) {
+    if (transition) this.events.emit(breakerTransitionEvent(id, providerId, transition));
+  }
+
+  private async recordProviderFailure(id: string, providerId: string) {
+    if (!this.breaker) return;
+    this.emitBreakerTransition(id, providerId, await this.breaker.recordFailure(providerId));
+  }
+
+  private async recordProviderSuccess(id: string, providerId: string) {
+    if (!this.breaker) return;
+    this.emitBreakerTransition(id, providerId, await this.breaker.recordSuccess(providerId));
+  }
+
+  /** Reserve a call slot (half-open probes are limited); false means skip this provider. */
+  private async acquireProvider(id: string, providerId: string): Promise<boolean> {
+    if (!this.breaker) return true;
+    const { allowed, transition } = await this.breaker.acquire(providerId);
+    this.emitBreakerTransition(id, providerId, transition);
+    return allowed;
+  }
+
+  /** Free a slot from `acquireProvider` for a provider that was skipped after all. */
+  private async releaseProvider(providerId: string): Promise<void> {
+    await this.breaker?.release(providerId);
+  }
+
+  /** Ordered, capability-filtered, healthy providers; the first entry is the primary pick. */
+  private async pickProviders(
+    agent: Agent | undefined,
+    input?: unknown,
+    hints: RouteHints = {},
+    classification?: InputClassification
+  ): Promise<ModelProvider[]> {
+    const required = this.requiredCapabilities(agent, input);
+    const ordered = this.resolveSelection(agent, input, hints, classification).providers;
     const candidates = required.length
       ? ordered.filter((p) => required.every((cap) => p.supports.includes(cap)))
       : ordered;
-    const healthy = this.circuitBreaker ? candidates.filter((p) => this.isProviderHealthy(p.id)) : candidates;
-    const p = healthy[0];
-    if (!p) {
+    const health = await Promise.all(candidates.map((p) => this.isProviderHealthy(p.id)));
+    const healthy = candidates.filter((_p, i) => health[i]);
+    if (!healthy.length) {
       const capText = required.length ? ` for capabilities: ${required.join(', ')}` : '';
       if (candidates.length) {
         throw new BoltError('NO_PROVIDER', `No healthy provider configured on the router${capText}.`);
       }
       throw new BoltError('NO_PROVIDER', `No model provider configured on the router${capText}.`);
     }
-    return p;
+    return healthy;
   }
   private memoryImplName() {
     return this.memory?.constructor?.name ?? 'Unknown';
@@ -457,38 +820,260 @@ export class Router implements AppRouter {
   }
 
   /** ---- Diagnostics ---- */
-  async explain(args: { agentId: string; input?: unknown; memoryScope?: string }) {
+  async explain(args: { agentId: string; input?: unknown; memoryScope?: string }): Promise<RouteExplanation> {
     const agent = this.agents.get(args.agentId);
-    const providers = this.resolveProviders(agent, args.input, {});
-    const providerId = providers[0]?.id ?? 'none';
-    const ok = Boolean(agent);
+    const { hints, input } = extractRouteHints(args.input);
+    // No model calls here: an LLM classifier answers from its cache or the keyword patterns.
+    const classification = await this.classifyRoute(agent, input, hints, { dryRun: true });
+    const selection = this.resolveSelection(agent, input, hints, classification);
+    const required = this.requiredCapabilities(agent, input);
+    const candidates = await Promise.all(
+      selection.providers.map(async (p): Promise<ProviderCandidateDecision> => {
+        const missingCapabilities = required.filter((cap) => !p.supports.includes(cap));
+        const [breaker, healthy] = await Promise.all([this.getBreakerState(p.id), this.isProviderHealthy(p.id)]);
+        return { id: p.id, missingCapabilities, breaker: breaker.status, eligible: !missingCapabilities.length && healthy };
+      })
+    );
+    const eligibleProviders = candidates.filter((c) => c.eligible).map((c) => c.id);
+    const declared = agent?.tools ?? [];
+    const available = declared.filter((toolId) => Boolean(this.tools?.get(toolId)));
+
+    let reason = 'ready';
+    if (!agent) reason = `agent '${args.agentId}' not found`;
+    else if (!eligibleProviders.length) {
+      const capText = required.length ? ` for capabilities: ${required.join(', ')}` : '';
+      reason = `no eligible provider${capText}`;
+    }
     return {
-      ok,
-      reason: ok ? 'ready' : `agent '${args.agentId}' not found`,
+      ok: reason === 'ready',
+      reason,
       agentId: args.agentId,
       agents: this.listAgents(),
-      provider: providerId,
-      providers: providers.map((p) => p.id),
+      provider: eligibleProviders[0] ?? 'none',
+      providerReason: selection.reason,
+      providers: selection.providers.map((p) => p.id),
+      hints: Object.keys(hints) as Array<keyof RouteHints>,
+      preset: selection.preset,
+      orderSource: selection.orderSource,
+      requiredCapabilities: required,
+      candidates,
+      eligibleProviders,
+      agentTools: { declared, available, missing: declared.filter((toolId) => !available.includes(toolId)) },
       memory: this.memoryImplName(),
-      env: {
-        GROQ_API_KEY: Boolean(process.env.GROQ_API_KEY),
-        REDIS_URL: Boolean(process.env.REDIS_URL),
-      },
+      env: this.detectEnv(),
     };
   }
 
+  private detectEnv(): Record<string, boolean> {
+    const prefixes = new Set(Object.keys(PROVIDER_ENV_KEYS));
+    for (const p of [...this.providers, ...this.modelProviders.values()]) prefixes.add(p.id.split(':')[0]);
+    for (const prefix of Object.keys(this.providerFactories)) prefixes.add(prefix);
+    const env: Record<string, boolean> = {};
+    for (const prefix of prefixes) {
+      const keys = PROVIDER_ENV_KEYS[prefix] ?? [`${prefix.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_API_KEY`];
+      for (const key of keys) env[key] = Boolean(process.env[key]);
+    }
+    env.REDIS_URL = Boolean(process.env.REDIS_URL);
+    return env;
+  }
+
+  /** ---- Embeddings and images ---- */
+  async embed(req: EmbedRequest & { id?: string }): Promise<EmbeddingResult> {
+    return this.embedTexts(req, { redaction: this.redaction, tenantId: req.tenantId });
+  }
+
+  /** `embed` under a route's redaction and usage tracker (for `ctx.embed`) or the router's own. */
+  private async embedTexts(req: EmbedRequest & { id?: string }, scope: CapabilityScope): Promise<EmbeddingResult> {
+    const redactor = createRedactor(scope.redaction);
+    const raw = typeof req.texts === 'string' ? [req.texts] : req.texts;
+    const texts = redactor ? raw.map((text) => redactor.redactText(text)) : raw;
+    const batchSize = Math.max(1, Math.floor(req.batchSize ?? this.embeddingBatchSize));
+    const id = req.id ?? makeCallId('embed');
+    // Vectors from different models are not comparable: a failover restarts every batch on the next provider.
+    return this.callCapability(id, 'embedding', req, { kind: 'embedding', texts }, scope, async (provider) => {
+      const embeddings: number[][] = [];
+      let tokens: number | undefined;
+      for (let i = 0; i < texts.length; i += batchSize) {
+        const batch = texts.slice(i, i + batchSize);
+        const res = await raceAbort(provider.call({ kind: 'embedding', texts: batch, signal: req.signal }), req.signal);
+        if (!isEmbeddingBatch(res.output, batch.length)) {
+          throw new BoltError(
+            'INVALID_PROVIDER_OUTPUT',
+            `Provider '${provider.id}' did not return ${batch.length} embedding vector(s)`
+          );
+        }
+        embeddings.push(...res.output);
+        if (res.tokens != null) tokens = (tokens ?? 0) + res.tokens;
+      }
+      return { embeddings, providerId: provider.id, tokens };
+    });
+  }
+
+  async generateImage(req: ImageRequest & { id?: string }): Promise<ImageResult> {
+    return this.generateImages(req, { tenantId: req.tenantId });
+  }
+
+  private async generateImages(req: ImageRequest & { id?: string }, scope: CapabilityScope): Promise<ImageResult> {
+    const id = req.id ?? makeCallId('image');
+    const args: ProviderCallArgs = { kind: 'image', prompt: req.prompt, image: { size: req.size, count: req.count } };
+    return this.callCapability(id, 'image', req, args, scope, async (provider) => {
+      const res = await raceAbort(provider.call({ ...args, signal: req.signal }), req.signal);
+      const images = Array.isArray(res.output) ? (res.output as GeneratedImage[]).filter((i) => i?.url || i?.b64) : [];
+      if (!images.length) {
+        throw new BoltError('INVALID_PROVIDER_OUTPUT', `Provider '${provider.id}' returned no images`);
+      }
+      return { images, providerId: provider.id, tokens: res.tokens };
+    });
+  }
+
+  /**
+   * Run a non-text request on providers with `capability` in preset order, with breaker, failover and
+   * tenant quotas. `args` describes the request for cost and token estimates; the result carries its usage.
+   */
+  private async callCapability<T extends { providerId: string; tokens?: number }>(
+    id: string,
+    capability: Capability,
+    req: { providerId?: string; signal?: AbortSignal },
+    args: ProviderCallArgs,
+    scope: CapabilityScope,
+    run: (provider: ModelProvider) => Promise<T>
+  ): Promise<T & { usage: RunUsage }> {
+    throwIfAborted(req.signal);
+    const capable = this.resolveProviders().filter((p) => p.supports.includes(capability));
+    const candidates = req.providerId ? capable.filter((p) => matchProviderId(p.id, req.providerId!)) : capable;
+    if (!candidates.length) {
+      const match = req.providerId ? ` matching '${req.providerId}'` : '';
+      throw new BoltError('NO_PROVIDER', `No provider${match} supports '${capability}'.`);
+    }
+    // Counted for this request and, inside a route, toward the route's usage too.
+    const usage = new UsageTracker();
+    const trackers = scope.usage ? [usage, scope.usage] : [usage];
+    const tenantId = this.quotasEnabled ? scope.tenantId : undefined;
+    let attempt = 0;
+    let lastError: unknown;
+    for (let i = 0; i < candidates.length; i += 1) {
+      const provider = candidates[i];
+      if (!(await this.acquireProvider(id, provider.id))) continue;
+      const estimatedTokens = countPromptTokens(provider, args);
+      if (tenantId) {
+        try {
+          await this.quotas.check(tenantId, {
+            tokens: estimatedTokens,
+            costUSD: this.estimateCost(provider, args, { tokens: estimatedTokens }),
+          });
+        } catch (err) {
+          await this.releaseProvider(provider.id);
+          throw err;
+        }
+      }
+      attempt += 1;
+      const t0 = Date.now();
+      this.events.emit({ type: 'provider:call:start', id, providerId: provider.id, args: { kind: capability } });
+      try {
+        const out = await run(provider);
+        await this.recordProviderSuccess(id, provider.id);
+        const ms = Date.now() - t0;
+        this.events.emit({ type: 'provider:call:end', id, providerId: provider.id, ms, tokens: out.tokens });
+        const costUSD = this.estimateCost(provider, args, { tokens: out.tokens });
+        const call = {
+          ms,
+          costUSD,
+          // Embedding tokens are all input; image providers rarely report any.
+          promptTokens: out.tokens,
+          completionTokens: out.tokens != null ? 0 : undefined,
+          totalTokens: out.tokens,
+          estimatedPromptTokens: estimatedTokens,
+        };
+        for (const tracker of trackers) tracker.recordCall(provider.id, call);
+        if (tenantId) await this.quotas.record(tenantId, { tokens: out.tokens ?? estimatedTokens, costUSD });
+        return { ...out, usage: usage.snapshot() };
+      } catch (err: any) {
+        if (req.signal?.aborted || isAbortedError(err)) {
+          await this.releaseProvider(provider.id);
+          throw req.signal?.aborted ? abortedError(req.signal, err) : err;
+        }
+        await this.recordProviderFailure(id, provider.id);
+        for (const tracker of trackers) tracker.recordFailure(provider.id, Date.now() - t0);
+        lastError = err;
+        const failover = this.failover;
+        const retryable =
+          failover && (failover.isRetryable ? failover.isRetryable(err, provider) : isRetryableProviderError(err));
+        const next = candidates[i + 1];
+        if (!retryable || !next || attempt >= failover.maxAttempts) throw err;
+        this.events.emit({
+          type: 'route:provider.failover',
+          id,
+          fromProviderId: provider.id,
+          toProviderId: next.id,
+          attempt,
+          message: String(err?.message ?? err),
+        });
+      }
+    }
+    throw lastError ?? new BoltError('NO_PROVIDER', `No healthy provider supports '${capability}'.`);
+  }
+
+  /** USD for a call: the router's `costEstimator`, else the provider's `estimateCost`. */
+  private estimateCost(provider: ModelProvider, args: ProviderCallArgs, result: ProviderResult): number | undefined {
+    const cost = this.costEstimator
+      ? this.costEstimator({ provider, args, result })
+      : provider.estimateCost?.({ tokens: result.tokens, input: args });
+    return cost != null && Number.isFinite(cost) ? Number(cost) : undefined;
+  }
+
   /** ---- Routing ---- */
-  async route(req: {
+  async resume(req: {
     id: string;
-    agentId: string;
-    input: unknown;
-    memoryScope?: string;
+    decisions: Record<string, ToolApprovalDecision>;
     onToken?: (delta: string) => void;
+    signal?: AbortSignal;
+    onUsage?: (usage: RunUsage) => void;
   }): Promise<any> {
-    const { id, agentId, input, memoryScope, onToken } = req;
+    const suspended = await this.memory.get<SuspendedRun>(suspendedRunKey(req.id));
+    if (!suspended) {
+      throw new BoltError('RUN_NOT_SUSPENDED', `No suspended run '${req.id}'`);
+    }
+    const out = await this.route(
+      {
+        id: suspended.id,
+        agentId: suspended.agentId,
+        input: suspended.input,
+        memoryScope: suspended.memoryScope,
+        tenantId: suspended.tenantId,
+        onToken: req.onToken,
+        signal: req.signal,
+        onUsage: req.onUsage,
+      },
+      { journal: suspended.journal, decisions: req.decisions }
+    );
+    await this.memory.set(suspendedRunKey(req.id), null);
+    return out;
+  }
+
+  async route(
+    req: {
+      id: string;
+      agentId: string;
+      input: unknown;
+      memoryScope?: string;
+      tenantId?: string;
+      onToken?: (delta: string) => void;
+      signal?: AbortSignal;
+      onUsage?: (usage: RunUsage) => void;
+    },
+    resumed?: { journal: RunJournal; decisions: Record<string, ToolApprovalDecision> }
+  ): Promise<any> {
+    const { id, agentId, input, memoryScope, onToken, signal } = req;
+    // Results recorded for suspend/resume; a resumed run replays them in order.
+    const journal: RunJournal = { providerResults: [], toolResults: { ...resumed?.journal.toolResults } };
+    const replay = resumed?.journal.providerResults ?? [];
+    const decisions = resumed?.decisions ?? {};
     const { hints, input: cleanedInput } = extractRouteHints(input);
-    const budget = mergeBudget(this.budget, hints.budget);
-    const redaction = hints.redaction ? { ...this.redaction, ...hints.redaction } : this.redaction;
+    // Per-route usage report; replayed provider results were already counted by the suspended run.
+    const usage = new UsageTracker();
+    const tenantId = this.quotasEnabled
+      ? this.quotas.resolveTenant({ tenantId: req.tenantId, memoryScope })
+      : req.tenantId;
 
     // start trace
     this.events.emit({ type: 'route:start', id, agentId, inputKind: typeof input, memoryScope });
@@ -500,70 +1085,386 @@ export class Router implements AppRouter {
       throw new BoltError('AGENT_NOT_FOUND', `No agent '${agentId}'`);
     }
     this.events.emit({ type: 'route:agent.resolve', id, agentId, ok: true });
+    throwIfAborted(signal);
 
-    // choose provider (naive)
-    const provider = this.pickProvider(agent, cleanedInput, hints);
-    this.events.emit({ type: 'route:provider.select', id, providerId: provider.id });
+    const pluginCtx: PluginRouteContext = {
+      id,
+      agentId,
+      agent,
+      input: cleanedInput,
+      hints,
+      memoryScope,
+      tenantId,
+      signal,
+      state: {},
+    };
+    // From here on failures go through plugins' onError (except cancellations, suspensions and
+    // guard errors, which stay final) and are traced with onRouteError.
+    const fail = async (caught: any): Promise<unknown> => {
+      let err = signal?.aborted && !isAbortedError(caught) ? abortedError(signal, caught) : caught;
+      if (err instanceof BoltError && err.code === 'RUN_SUSPENDED') throw err;
+      if (!isAbortedError(err) && !isGuardError(err)) {
+        const handled = await this.plugins.onError(err, pluginCtx);
+        if (handled.recovered) return handled.output;
+        err = handled.error;
+      }
+      await this.plugins.onRouteError(err, pluginCtx);
+      throw err;
+    };
 
-    const routeStartedAt = Date.now();
-    let totalCost = 0;
+    // Input guards, classification and provider selection run here, so a block, a classifier
+    // failure or NO_PROVIDER is reported like any other route failure.
+    let finished = true;
+    let classification: InputClassification | undefined;
+    let candidates: ModelProvider[];
+    try {
+      const answered = await this.plugins.beforeRoute(pluginCtx);
+      if (answered) return await this.plugins.afterRoute(answered.output, pluginCtx);
+      // choose provider; later candidates are failover targets
+      classification = await this.classifyRoute(agent, pluginCtx.input, hints, { signal });
+      candidates = await this.pickProviders(agent, pluginCtx.input, hints, classification);
+      finished = false;
+    } catch (caught) {
+      return await fail(caught);
+    } finally {
+      if (finished) req.onUsage?.(usage.snapshot());
+    }
+    const routeInput = pluginCtx.input;
 
-    const invokeProvider = async (args: ProviderCallArgs): Promise<ProviderResult> => {
-      const t0 = Date.now();
-      this.events.emit({ type: 'provider:call:start', id, providerId: provider.id, args: { kind: args.kind } });
+    this.events.emit({
+      type: 'route:provider.select',
+      id,
+      providerId: candidates[0].id,
+      ...(classification ? { preset: classification.preset, classification } : {}),
+    });
 
-      const safeArgs = applyRedaction(args, redaction);
-      let res: ProviderResult;
+    const budget = this.budgets.budgetFor(pluginCtx);
+
+    // Breaker may deny a provider (still open, or half-open probe slots taken): move along the order.
+    // Calls carrying images skip providers without 'vision'.
+    const acquireFrom = async (from: number, args?: ProviderCallArgs) => {
+      const needsVision = args ? callImages(args).length > 0 : false;
+      for (let i = from; i < candidates.length; i += 1) {
+        if (needsVision && !candidates[i].supports.includes('vision')) continue;
+        if (await this.acquireProvider(id, candidates[i].id)) return i;
+      }
+      return -1;
+    };
+
+    // Rate limits: take a slot now, spill over to the next provider if the rule allows, else queue.
+    // Breaker slots of providers passed over here are released.
+    const acquireCapacity = async (
+      index: number,
+      args: ProviderCallArgs,
+      callSignal: AbortSignal | undefined
+    ): Promise<{ index: number; lease?: RateLimitLease }> => {
+      const limiter = this.rateLimiter;
+      if (!limiter) return { index };
+      let current = index;
+      while (true) {
+        const providerId = candidates[current].id;
+        const slot = limiter.tryAcquire(providerId);
+        if (typeof slot !== 'string') {
+          if (current !== index) await this.releaseProvider(candidates[index].id);
+          return { index: current, lease: slot };
+        }
+        const next = limiter.spillover(providerId) ? await acquireFrom(current + 1, args) : -1;
+        if (current !== index) await this.releaseProvider(providerId);
+        if (next >= 0) {
+          this.events.emit({
+            type: 'ratelimit:spillover',
+            id,
+            fromProviderId: providerId,
+            toProviderId: candidates[next].id,
+            reason: slot,
+          });
+          current = next;
+          continue;
+        }
+        // Nowhere to spill: queue on the provider the order preferred.
+        const waitId = candidates[index].id;
+        const startedAt = Date.now();
+        this.events.emit({ type: 'ratelimit:wait', id, providerId: waitId, reason: slot });
+        const lease = await limiter.acquire(waitId, callSignal);
+        this.events.emit({ type: 'ratelimit:acquired', id, providerId: waitId, waitedMs: Date.now() - startedAt });
+        return { index, lease };
+      }
+    };
+
+    type AttemptOutcome =
+      | { ok: true; res: ProviderResult; index: number; t0: number }
+      | { ok: false; error: any; index: number; streamed: boolean; aborted: boolean };
+
+    // One provider call. Failures are returned (not thrown) so hedged attempts can be raced.
+    const callProvider = async (
+      index: number,
+      safeArgs: ProviderCallArgs,
+      callSignal: AbortSignal | undefined,
+      stream: { claim(): boolean } = { claim: () => true }
+    ): Promise<AttemptOutcome> => {
+      let streamed = false;
+      let capacity: { index: number; lease?: RateLimitLease } = { index };
+      try {
+        capacity = await acquireCapacity(index, safeArgs, callSignal);
+      } catch (error) {
+        await this.releaseProvider(candidates[index].id);
+        return { ok: false, error, index, streamed, aborted: true };
+      }
+      const provider = candidates[capacity.index];
+      // The caller's stream gets real values back (reversible) or redacted echoes; trace events keep provider text.
+      const callerStream = this.plugins.streamFilter((delta) => onToken?.(delta), pluginCtx);
+      const t0 = Date.now();
+      this.events.emit({ type: 'provider:call:start', id, providerId: provider.id, args: { kind: safeArgs.kind } });
       try {
         // wire token streaming into event bus (if provider supports it)
-        res = await provider.call({
+        const pending = provider.call({
           ...safeArgs,
+          signal: callSignal,
           tools: safeArgs.tools ?? tools.list().map((tool) => ({
             id: tool.id,
             description: tool.description,
             schema: tool.schema,
           })),
           onToken: (delta: string) => {
+            if (!stream.claim()) return;
+            streamed = true;
             this.events.emit({ type: 'provider:call:token', id, delta });
-            onToken?.(delta);
+            if (callerStream) callerStream.push(delta);
+            else onToken?.(delta);
           },
         } as any);
-      } catch (err) {
-        this.recordProviderFailure(provider.id);
-        throw err;
+        const res = await raceAbort(pending, callSignal);
+        callerStream?.flush();
+        capacity.lease?.release(res.tokens);
+        return { ok: true, res, index: capacity.index, t0 };
+      } catch (error) {
+        capacity.lease?.release();
+        // Cancellation (by the caller or a winning hedge) is not a provider failure.
+        if (isAbortedError(error) || callSignal?.aborted) {
+          await this.releaseProvider(provider.id);
+          return { ok: false, error, index: capacity.index, streamed, aborted: true };
+        }
+        usage.recordFailure(provider.id, Date.now() - t0);
+        await this.plugins.onProviderError(error, { ...pluginCtx, provider, args: safeArgs, ms: Date.now() - t0 });
+        return { ok: false, error, index: capacity.index, streamed, aborted: false };
       }
+    };
 
-      this.recordProviderSuccess(provider.id);
+    // Hedging: if the first call has no token or result after `delayMs`, race the next candidate.
+    const hedge = resolveHedge(hints.hedge ?? this.hedge, budget);
+    const hedgedCall = (index: number, safeArgs: ProviderCallArgs): Promise<AttemptOutcome> => {
+      if (!hedge) return callProvider(index, safeArgs, signal);
+      return new Promise<AttemptOutcome>((resolve) => {
+        const attempts: { controller: AbortController; index: number }[] = [];
+        let settled = false;
+        let running = 0;
+        let hedges = 0;
+        let furthest = index;
+        let streamOwner: number | undefined;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let lastFailure: AttemptOutcome | undefined;
+        const startedAt = Date.now();
+
+        const cancelOthers = (keep?: number) => {
+          attempts.forEach((attempt, n) => {
+            if (n !== keep) attempt.controller.abort(new BoltError('HEDGE_CANCELLED', 'Hedged call lost the race'));
+          });
+        };
+        const finish = (outcome: AttemptOutcome, winner?: number) => {
+          if (settled) return;
+          settled = true;
+          if (timer) clearTimeout(timer);
+          cancelOthers(winner);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(outcome);
+        };
+        const onAbort = () => finish({ ok: false, error: abortedError(signal), index, streamed: false, aborted: true });
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const launch = (target: number) => {
+          const n = attempts.length;
+          const controller = new AbortController();
+          attempts.push({ controller, index: target });
+          running += 1;
+          const stream = {
+            // The first attempt to stream owns the output; the others are cancelled.
+            claim: () => {
+              if (streamOwner === undefined) {
+                streamOwner = n;
+                if (timer) clearTimeout(timer);
+                cancelOthers(n);
+              }
+              return streamOwner === n;
+            },
+          };
+          void callProvider(target, safeArgs, controller.signal, stream).then((outcome) => {
+            running -= 1;
+            if (settled) return;
+            if (outcome.ok || outcome.streamed) return finish(outcome, n);
+            if (!outcome.aborted) lastFailure = outcome;
+            if (running === 0) finish({ ...(lastFailure ?? outcome), index: furthest } as AttemptOutcome);
+          });
+        };
+        const scheduleHedge = () => {
+          if (hedges >= hedge.maxHedges) return;
+          timer = setTimeout(async () => {
+            if (settled || streamOwner !== undefined) return;
+            const next = await acquireFrom(furthest + 1, safeArgs);
+            if (next < 0) return;
+            if (settled || streamOwner !== undefined) return this.releaseProvider(candidates[next].id);
+            this.events.emit({
+              type: 'route:provider.hedge',
+              id,
+              fromProviderId: candidates[attempts[0].index].id,
+              toProviderId: candidates[next].id,
+              afterMs: Date.now() - startedAt,
+            });
+            hedges += 1;
+            furthest = next;
+            launch(next);
+            scheduleHedge();
+          }, hedge.delayMs);
+        };
 
-      this.events.emit({
-        type: 'provider:call:end',
-        id,
-        providerId: provider.id,
-        ms: Date.now() - t0,
-        tokens: res.tokens,
-        outputPreview: typeof res.output === 'string' ? String(res.output).slice(0, 120) : undefined,
+        launch(index);
+        scheduleHedge();
       });
+    };
 
-      if (this.costEstimator) {
-        const cost = this.costEstimator({ provider, args: safeArgs, result: res });
-        if (Number.isFinite(cost)) {
-          totalCost += Number(cost);
-        }
-      } else if (provider.estimateCost) {
-        const cost = provider.estimateCost({ tokens: res.tokens, input: safeArgs });
-        if (Number.isFinite(cost)) {
-          totalCost += Number(cost);
-        }
+    const estimateCallCost = (provider: ModelProvider, args: ProviderCallArgs, result: ProviderResult) =>
+      this.estimateCost(provider, args, result);
+
+    // Budget downgrade: when the planned call's estimate does not fit, move to a later candidate whose
+    // estimate does. Refusing calls that still cannot fit is the budget plugin's job.
+    const preflight = async (index: number, args: ProviderCallArgs) => {
+      if (budget?.maxCostUSD == null) return index;
+      const remaining = budget.maxCostUSD - this.budgets.spent(pluginCtx).costUSD;
+      const estimateFor = (i: number) =>
+        estimateCallCost(candidates[i], args, { tokens: countPromptTokens(candidates[i], args) });
+      const estimate = estimateFor(index);
+      if (estimate == null || estimate <= remaining) return index;
+      const needsVision = callImages(args).length > 0;
+      for (let i = index + 1; i < candidates.length; i += 1) {
+        if (needsVision && !candidates[i].supports.includes('vision')) continue;
+        const cheaper = estimateFor(i);
+        if (cheaper != null && cheaper > remaining) continue;
+        if (!(await this.acquireProvider(id, candidates[i].id))) continue;
+        await this.releaseProvider(candidates[index].id);
+        this.events.emit({
+          type: 'route:budget.downgrade',
+          id,
+          fromProviderId: candidates[index].id,
+          toProviderId: candidates[i].id,
+          estimatedCostUSD: estimate,
+          remainingUSD: remaining,
+        });
+        return i;
       }
-      if (budget?.maxCostUSD != null && totalCost > budget.maxCostUSD) {
-        throw new Error('Route budget exceeded: cost');
+      return index;
+    };
+
+    const invokeProvider = async (args: ProviderCallArgs): Promise<ProviderResult> => {
+      throwIfAborted(signal);
+      const replayed = replay[journal.providerResults.length];
+      if (replayed) {
+        journal.providerResults.push(replayed);
+        return replayed;
+      }
+      const needsVision = callImages(args).length > 0;
+      if (needsVision && !candidates.some((p) => p.supports.includes('vision'))) {
+        throw new BoltError('NO_PROVIDER', "No provider for this route supports 'vision' (the call carries images).");
+      }
+      // Every call starts from the preferred provider; failover and skips only move this call along.
+      let providerIndex = await acquireFrom(0, args);
+      if (providerIndex < 0) {
+        throw new BoltError('NO_PROVIDER', 'No healthy provider configured on the router.');
       }
+      let safeArgs: ProviderCallArgs;
+      // Until the call goes out, any refusal or plugin answer hands the breaker slot back.
+      try {
+        providerIndex = await preflight(providerIndex, args);
+        const planned = candidates[providerIndex];
+        const promptEstimate = countPromptTokens(planned, args);
+        // Plugins (redaction, quotas, budgets, user middleware) see the call before any image file is read.
+        const before = await this.plugins.beforeProviderCall(args, {
+          ...pluginCtx,
+          provider: planned,
+          estimate: { promptTokens: promptEstimate, costUSD: estimateCallCost(planned, args, { tokens: promptEstimate }) },
+        });
+        if (before.result) {
+          await this.releaseProvider(planned.id);
+          journal.providerResults.push(before.result);
+          return before.result;
+        }
+        safeArgs = needsVision ? await loadCallImages(before.args) : before.args;
+      } catch (err) {
+        await this.releaseProvider(candidates[providerIndex].id);
+        throw err;
+      }
+      let attempt = 1;
+      let t0 = 0;
+      let res: ProviderResult;
 
-      if (budget?.maxLatencyMs != null && Date.now() - routeStartedAt > budget.maxLatencyMs) {
-        throw new Error('Route budget exceeded: latency');
+      while (true) {
+        const outcome = await hedgedCall(providerIndex, safeArgs);
+        providerIndex = outcome.index;
+        if (outcome.ok) {
+          res = outcome.res;
+          t0 = outcome.t0;
+          break;
+        }
+        const err = outcome.error;
+        if (outcome.aborted) throw signal?.aborted ? abortedError(signal, err) : err;
+        const provider = candidates[outcome.index];
+        const failover = this.failover;
+        // Tokens already reached the caller, so replaying on another provider would duplicate output.
+        if (!failover || outcome.streamed) throw err;
+        const retryable = failover.isRetryable
+          ? failover.isRetryable(err, provider)
+          : isRetryableProviderError(err);
+        if (!retryable) throw err;
+        const next = attempt < failover.maxAttempts ? await acquireFrom(providerIndex + 1, safeArgs) : -1;
+        if (next < 0) {
+          if (attempt === 1) throw err;
+          throw new BoltError(
+            'PROVIDERS_EXHAUSTED',
+            `All providers failed after ${attempt} attempt(s): ${String(err?.message ?? err)}`,
+            err
+          );
+        }
+        this.events.emit({
+          type: 'route:provider.failover',
+          id,
+          fromProviderId: provider.id,
+          toProviderId: candidates[next].id,
+          attempt,
+          message: String(err?.message ?? err),
+        });
+        providerIndex = next;
+        attempt += 1;
       }
 
-      return res;
+      const provider = candidates[providerIndex];
+      const cost = estimateCallCost(provider, safeArgs, res);
+      const promptTokens = countPromptTokens(provider, safeArgs);
+      usage.recordCall(provider.id, {
+        ms: Date.now() - t0,
+        costUSD: cost,
+        promptTokens: res.promptTokens,
+        completionTokens: res.completionTokens,
+        totalTokens: res.tokens,
+        estimatedPromptTokens: promptTokens,
+      });
+      // provider:call:end is traced, redaction restores placeholders or scrubs echoed secrets, the
+      // breaker and quotas record the call, and budgets fail the route once a limit is crossed.
+      const visible = await this.plugins.afterProviderCall(res, {
+        ...pluginCtx,
+        provider,
+        args: safeArgs,
+        usage: { tokens: res.tokens ?? promptTokens, costUSD: cost, ms: Date.now() - t0 },
+      });
+      journal.providerResults.push(visible);
+      return visible;
     };
 
     // memory wrapper to trace history/append
@@ -582,29 +1483,185 @@ export class Router implements AppRouter {
       },
     };
 
+    // tool:call:* events; previews go through the plugins' sanitizeTrace (redaction)
+    const preview = (value: unknown) => this.plugins.sanitizeTrace(inputToText(value), pluginCtx).slice(0, 120);
+    const traceTool = async <T>(
+      call: { toolId: string; source: 'agent' | 'provider'; toolCallId?: string; iteration?: number },
+      args: unknown,
+      run: (args: unknown) => Promise<T>
+    ): Promise<T> => {
+      const hooked = await this.plugins.onToolCall({ ...call, args }, pluginCtx);
+      const t0 = Date.now();
+      this.events.emit({ type: 'tool:call:start', id, ...call, argsPreview: preview(hooked.args) });
+      try {
+        const output = hooked.answered ? (hooked.output as T) : await run(hooked.args);
+        this.events.emit({ type: 'tool:call:end', id, ...call, ms: Date.now() - t0, outputPreview: preview(output) });
+        return output;
+      } catch (err: any) {
+        this.events.emit({
+          type: 'tool:call:error',
+          id,
+          ...call,
+          ms: Date.now() - t0,
+          message: String(err?.message ?? err),
+          code: err instanceof BoltError ? err.code : undefined,
+        });
+        throw err;
+      }
+    };
+
     const tools = createScopedToolRegistry({
       agent,
       registry: this.tools,
       memory,
+      signal,
+      trace: (toolId, args, run) => traceTool({ toolId, source: 'agent' }, args, run),
     });
+    // Provider-requested calls are traced in runProviderToolCalls (with call ids and iterations).
+    const providerTools = createScopedToolRegistry({ agent, registry: this.tools, memory, signal });
+
+    const runToolCall = async (toolCall: ProviderToolCall): Promise<unknown> => {
+      const tool = providerTools.get(toolCall.toolId);
+      if (!tool) {
+        throw new BoltError('TOOL_NOT_FOUND', `Tool not allowed or not found: ${toolCall.toolId}`);
+      }
+      if (tool.schema && !validateSchema(tool.schema, toolCall.args)) {
+        throw new BoltError('TOOL_ARGS_INVALID', `Invalid arguments for tool '${toolCall.toolId}'`);
+      }
+      throwIfAborted(signal);
+      const timeoutMs = tool.timeoutMs ?? this.toolCallOptions.timeoutMs;
+      if (!(timeoutMs != null && timeoutMs > 0)) return raceAbort(tool.run(toolCall.args, {}), signal);
+
+      // The tool sees a signal that fires on route abort or on its own timeout.
+      const controller = new AbortController();
+      const onAbort = () => controller.abort(signal?.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const err = new BoltError('TOOL_TIMEOUT', `Tool '${toolCall.toolId}' timed out after ${timeoutMs}ms`);
+          controller.abort(err);
+          reject(err);
+        }, timeoutMs);
+      });
+      try {
+        return await Promise.race([raceAbort(tool.run(toolCall.args, { signal: controller.signal }), signal), timeout]);
+      } finally {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    };
+
+    // Approval gate for `requiresApproval` tools: resume decisions first, then the reviewer hook, else suspend.
+    const reviewToolCall = async (toolCall: ProviderToolCall, toolCallId: string): Promise<ToolApprovalDecision> => {
+      const tool = providerTools.get(toolCall.toolId);
+      if (!tool || !toolRequiresApproval(tool, toolCall.args)) return { action: 'approve' };
+      const decision =
+        decisions[toolCallId] ??
+        (this.approveToolCall
+          ? await this.approveToolCall({ runId: id, agentId, toolCallId, toolId: toolCall.toolId, args: toolCall.args })
+          : { action: 'suspend' as const });
+      this.events.emit({
+        type: 'tool:approval',
+        id,
+        toolCallId,
+        toolId: toolCall.toolId,
+        decision:
+          decision.action === 'approve'
+            ? decision.args !== undefined
+              ? 'edited'
+              : 'approved'
+            : decision.action === 'deny'
+              ? 'denied'
+              : 'pending',
+        reason: decision.action === 'deny' ? decision.reason : undefined,
+      });
+      return decision;
+    };
 
     const runProviderToolCalls = async (
       toolCalls: ProviderToolCall[],
-      iteration: number
+      iteration: number,
+      providerCallIndex: number
     ): Promise<ProviderToolResult[]> => {
-      const results: ProviderToolResult[] = [];
+      const { concurrency, returnErrors } = this.toolCallOptions;
+      const limit = Math.max(1, Math.floor(concurrency ?? 4));
+      const results: ProviderToolResult[] = new Array(toolCalls.length);
+      const runnable: { index: number; key: string; resultId: string; toolCall: ProviderToolCall }[] = [];
+      const pending: PendingToolApproval[] = [];
+
       for (let index = 0; index < toolCalls.length; index += 1) {
-        const toolCall = toolCalls[index];
-        const tool = tools.get(toolCall.toolId);
-        if (!tool) {
-          throw new Error(`Tool not allowed or not found: ${toolCall.toolId}`);
+        let toolCall = toolCalls[index];
+        const resultId = toolCall.id ?? `${toolCall.toolId}:${iteration}:${index}`;
+        const key = `${providerCallIndex}:${index}`;
+        const recorded = journal.toolResults[key];
+        if (recorded) {
+          results[index] = recorded;
+          continue;
         }
-        const output = await tool.run(toolCall.args, {});
-        results.push({
-          id: toolCall.id ?? `${toolCall.toolId}:${iteration}:${index}`,
-          toolId: toolCall.toolId,
-          output,
-        });
+        const decision = await reviewToolCall(toolCall, resultId);
+        if (decision.action === 'suspend') {
+          pending.push({ toolCallId: resultId, toolId: toolCall.toolId, args: toolCall.args });
+          continue;
+        }
+        if (decision.action === 'deny') {
+          const reason = decision.reason ? `: ${decision.reason}` : '';
+          results[index] = journal.toolResults[key] = {
+            id: resultId,
+            toolId: toolCall.toolId,
+            output: { error: `Tool call denied${reason}`, denied: true },
+            isError: true,
+          };
+          continue;
+        }
+        if (decision.args !== undefined) toolCall = { ...toolCall, args: decision.args };
+        runnable.push({ index, key, resultId, toolCall });
+      }
+
+      let next = 0;
+      const worker = async () => {
+        while (next < runnable.length) {
+          const { index, key, resultId, toolCall } = runnable[next++];
+          try {
+            const output = await traceTool(
+              { toolId: toolCall.toolId, source: 'provider', toolCallId: resultId, iteration },
+              toolCall.args,
+              (args) => runToolCall({ ...toolCall, args })
+            );
+            results[index] = { id: resultId, toolId: toolCall.toolId, output };
+          } catch (err: any) {
+            if (!returnErrors || isAbortedError(err) || signal?.aborted) throw err;
+            results[index] = {
+              id: resultId,
+              toolId: toolCall.toolId,
+              output: { error: String(err?.message ?? err) },
+              isError: true,
+            };
+          }
+          journal.toolResults[key] = results[index];
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(limit, runnable.length) }, worker));
+
+      if (pending.length) {
+        const suspended: SuspendedRun = {
+          id,
+          agentId,
+          input,
+          memoryScope,
+          tenantId: req.tenantId,
+          pending,
+          journal,
+          suspendedAt: Date.now(),
+        };
+        await this.memory.set(suspendedRunKey(id), suspended);
+        this.events.emit({ type: 'route:suspended', id, pending: pending.map((p) => p.toolCallId) });
+        throw new BoltError(
+          'RUN_SUSPENDED',
+          `Run '${id}' is waiting for approval of ${pending.map((p) => p.toolId).join(', ')}`,
+          undefined,
+          { runId: id, pending }
+        );
       }
       return results;
     };
@@ -624,7 +1681,8 @@ export class Router implements AppRouter {
           throw new Error(`Provider tool call iteration limit exceeded: ${this.maxToolCallIterations}`);
         }
 
-        const newResults = await runProviderToolCalls(toolCalls, toolIterations);
+        usage.recordToolRound(toolCalls.length);
+        const newResults = await runProviderToolCalls(toolCalls, toolIterations, journal.providerResults.length - 1);
         toolResults = [...toolResults, ...newResults];
         nextArgs = {
           ...args,
@@ -635,18 +1693,26 @@ export class Router implements AppRouter {
     };
 
     // run agent with the wrapped call + traced memory
-    const ctx: AgentCtx = { input: cleanedInput, call, memory, tools } as any;
+    const ctx: AgentCtx = {
+      input: routeInput,
+      call,
+      memory,
+      tools,
+      signal,
+      embed: (r: Omit<EmbedRequest, 'signal'>) =>
+        this.embedTexts(
+          { ...r, id, signal },
+          { redaction: hints.redaction ? { ...this.redaction, ...hints.redaction } : this.redaction, usage, tenantId }
+        ),
+      generateImage: (r: Omit<ImageRequest, 'signal'>) => this.generateImages({ ...r, id, signal }, { usage, tenantId }),
+    } as any;
     try {
-      const out = await agent.run(ctx);
-      return out;
-    } catch (err: any) {
-      this.events.emit({
-        type: 'error',
-        id,
-        message: String(err?.message ?? err),
-        stack: err?.stack,
-      } as TraceEvent);
-      throw err;
+      const out = await raceAbort(agent.run(ctx), signal);
+      return await this.plugins.afterRoute(out, pluginCtx);
+    } catch (caught) {
+      return await fail(caught);
+    } finally {
+      req.onUsage?.(usage.snapshot());
     }
   }
 }
@@ -1,9 +1,13 @@
 // packages/core/src/runner.ts
 
+import { abortedError, BoltError } from "./errors";
 import type { AppRouter } from "./router";
 import type {
+  Condition,
   Guard,
+  MapChild,
   Plan,
+  PlanCheckpoint,
   PlanStep,
   RunnerContext,
   RunnerEvent,
@@ -50,10 +54,165 @@ const autoCacheKey = (s: Extract<PlanStep, { kind: "model" } | { kind: "tool" }>
   return `step:${s.id}:${stableStringify(sig)}`;
 };
 
+/* ----------------------------------------------
+ * Dependency graph (mode: "dag")
+ * ---------------------------------------------- */
+
+// Nested step id -> the parallel/branch/loop step that runs it
+const nestedOwners = (steps: PlanStep[]): Map<string, string> => {
+  const owners = new Map<string, string>();
+  for (const s of steps) {
+    if (s.kind === "parallel") {
+      for (const childId of s.children) owners.set(childId, s.id);
+    }
+    if (s.kind === "branch") {
+      for (const branch of s.branches) {
+        for (const stepId of branch.then) owners.set(stepId, s.id);
+      }
+      for (const stepId of s.else ?? []) owners.set(stepId, s.id);
+    }
+    if (s.kind === "loop") {
+      for (const stepId of s.body) owners.set(stepId, s.id);
+    }
+  }
+  return owners;
+};
+
+// Head step id of "step.path" / "step[0].path"
+const refHead = (ref: string) => String(ref).trim().split(/[.[]/)[0];
+
+// Map iterations expose the current item and its index
+const isItemRef = (ref: string) => ["item", "index"].includes(refHead(ref));
+
+// Step ids referenced by ${...} and { var: ... } placeholders; item/index refs belong to the map
+const collectRefs = (val: any, acc: Set<string>, inMap: boolean) => {
+  const add = (ref: string) => {
+    if (!(inMap && isItemRef(ref))) acc.add(refHead(ref));
+  };
+  if (typeof val === "string") {
+    const m = val.match(/^\$\{([^}]+)\}$/);
+    if (m) add(m[1]);
+    return;
+  }
+  if (val && typeof val === "object") {
+    if ("var" in val && typeof val.var === "string") return add(val.var);
+    for (const v of Array.isArray(val) ? val : Object.values(val)) collectRefs(v, acc, inMap);
+  }
+};
+
+const conditionRefs = (cond: Condition, acc: Set<string>, inMap: boolean) => {
+  if (typeof cond === "string" || (cond && typeof cond === "object" && "truthy" in cond)) {
+    return collectRefs({ var: typeof cond === "string" ? cond : cond.truthy }, acc, inMap);
+  }
+  if (!cond || typeof cond !== "object") return;
+  const pair = "eq" in cond ? cond.eq : "gt" in cond ? cond.gt : "lt" in cond ? cond.lt : undefined;
+  for (const expr of [pair?.left, pair?.right]) {
+    if (expr && typeof expr === "object" && "var" in expr) collectRefs(expr, acc, inMap);
+  }
+};
+
+// Everything a step reads: inputFrom, placeholders, itemsFrom, conditions and nested steps' reads
+const stepRefs = (
+  s: PlanStep | MapChild,
+  stepById: Map<string, PlanStep>,
+  acc: Set<string>,
+  inMap = false,
+  seen = new Set<string>()
+) => {
+  if ("id" in s) {
+    if (seen.has(s.id)) return;
+    seen.add(s.id);
+  }
+  if ("inputFrom" in s) for (const id of s.inputFrom ?? []) acc.add(id);
+  if (s.kind === "tool") collectRefs(s.args, acc, inMap);
+  if (s.kind === "branch") for (const b of s.branches) conditionRefs(b.when, acc, inMap);
+  if (s.kind === "loop" && s.until != null) conditionRefs(s.until, acc, inMap);
+  if (s.kind === "map") {
+    acc.add(s.itemsFrom);
+    if (s.child) stepRefs(s.child, stepById, acc, true, seen);
+    if (s.steps?.length) {
+      // Body step ids are local to each iteration; only reads from outside count.
+      const local = new Map(stepById);
+      for (const b of s.steps) local.set(b.id, b);
+      const inner = new Set<string>();
+      for (const b of s.steps) stepRefs(b, local, inner, true, new Set(seen));
+      for (const b of s.steps) inner.delete(b.id);
+      for (const ref of inner) acc.add(ref);
+    }
+  }
+  const nested =
+    s.kind === "parallel"
+      ? s.children
+      : s.kind === "branch"
+        ? [...s.branches.flatMap((b) => b.then), ...(s.else ?? [])]
+        : s.kind === "loop"
+          ? s.body
+          : [];
+  for (const id of nested) {
+    const child = stepById.get(id);
+    if (child) stepRefs(child, stepById, acc, inMap, seen);
+  }
+};
+
+// Top-level step id -> top-level steps it waits for; throws PLAN_CYCLE on cycles
+const planDependencies = (plan: Plan, topLevel: PlanStep[], owners: Map<string, string>): Map<string, string[]> => {
+  const stepById = new Map(plan.steps.map((s) => [s.id, s]));
+  // Nested steps belong to the top-level step that (transitively) runs them.
+  const rootOf = (id: string) => {
+    const visited = new Set<string>();
+    while (owners.has(id) && !visited.has(id)) {
+      visited.add(id);
+      id = owners.get(id)!;
+    }
+    return id;
+  };
+  const deps = new Map<string, string[]>();
+  for (const s of topLevel) {
+    const refs = new Set<string>();
+    stepRefs(s, stepById, refs);
+    const ids = new Set<string>();
+    for (const ref of refs) {
+      const id = rootOf(ref);
+      if (id !== s.id && stepById.has(id)) ids.add(id);
+    }
+    deps.set(s.id, [...ids]);
+  }
+
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string, path: string[]) => {
+    if (state.get(id) === "done") return;
+    if (state.get(id) === "visiting") {
+      const cycle = [...path.slice(path.indexOf(id)), id];
+      throw new BoltError("PLAN_CYCLE", `Plan '${plan.id}' has a dependency cycle: ${cycle.join(" -> ")}`, undefined, {
+        cycle,
+      });
+    }
+    state.set(id, "visiting");
+    for (const dep of deps.get(id) ?? []) visit(dep, [...path, id]);
+    state.set(id, "done");
+  };
+  for (const s of topLevel) visit(s.id, []);
+  return deps;
+};
+
 /* ----------------------------------------------
  * Runner
  * ---------------------------------------------- */
 
+type ModelOrTool = Extract<PlanStep, { kind: "model" } | { kind: "tool" }>;
+
+// Outputs and step ids visible to a step: the plan, or one map iteration layered over its parent
+interface Scope {
+  outputs: Map<string, any>;
+  steps: Map<string, PlanStep>;
+  /** Input for steps without inputFrom */
+  input: any;
+  /** Prepended to step ids in events and route ids ("each:0:" inside map iterations) */
+  prefix: string;
+  iteration?: { item: any; index: number };
+  parent?: Scope;
+}
+
 export async function runPlan(
   router: AppRouter,
   plan: Plan,
@@ -62,31 +221,79 @@ export async function runPlan(
 ): Promise<{ outputs: Record<string, any> }> {
   const out = new Map<string, any>();
   const stepById = new Map(plan.steps.map((s) => [s.id, s]));
-  const nestedStepIds = new Set<string>();
-  for (const s of plan.steps) {
-    if (s.kind === "parallel") {
-      for (const childId of s.children) nestedStepIds.add(childId);
-    }
-    if (s.kind === "branch") {
-      for (const branch of s.branches) {
-        for (const stepId of branch.then) nestedStepIds.add(stepId);
-      }
-      for (const stepId of s.else ?? []) nestedStepIds.add(stepId);
-    }
-  }
+  const ownerOf = nestedOwners(plan.steps);
+  const root: Scope = { outputs: out, steps: stepById, input: ctx.input, prefix: "" };
   const onEvent = opts.onEvent ?? (() => {});
   const maxConc = Math.max(1, opts.maxConcurrency ?? 3);
   const defaultTTL = Math.max(0, opts.defaultStepTTLSeconds ?? 300);
   const startedAt = Date.now();
   let totalCost = 0;
 
+  // Checkpointing: finished model/tool outputs and attempt counts by scoped step id. Saves are
+  // chained so a slow store never lets an older snapshot overwrite a newer one, and steps still
+  // settling after a failure do not flip the run back to 'running'.
+  const restored = new Map(Object.entries(opts.resumeFrom?.steps ?? {}));
+  const completed = new Map(restored);
+  const attempts = new Map(Object.entries(opts.resumeFrom?.attempts ?? {}));
+  let saving: Promise<void> = Promise.resolve();
+  let ended: { status: PlanCheckpoint["status"]; error?: unknown } | undefined;
+  const checkpoint = (status: PlanCheckpoint["status"], error?: unknown): Promise<void> => {
+    const store = opts.checkpoints;
+    if (!store) return saving;
+    if (status !== "running") ended = { status, error };
+    const state = ended ?? { status };
+    saving = saving
+      .catch(() => {})
+      .then(() =>
+        store.save({
+          runId: ctx.runId ?? ctx.taskId,
+          ...(ctx.runId && ctx.runId !== ctx.taskId ? { taskId: ctx.taskId } : {}),
+          plan,
+          agentId: ctx.agentId,
+          input: ctx.input,
+          memoryScope: ctx.memoryScope,
+          status: state.status,
+          steps: Object.fromEntries(completed),
+          attempts: Object.fromEntries(attempts),
+          ...(state.error != null
+            ? { error: { message: (state.error as any)?.message ?? String(state.error), code: (state.error as any)?.code } }
+            : {}),
+          updatedAt: Date.now(),
+        })
+      );
+    return saving;
+  };
+
+  // Nearest output for a step id, looking outwards from map iterations
+  const lookup = (scope: Scope, id: string) => {
+    for (let sc: Scope | undefined = scope; sc; sc = sc.parent) {
+      if (sc.outputs.has(id)) return sc.outputs.get(id);
+    }
+    return undefined;
+  };
+
+  const findStep = (scope: Scope, id: string) => {
+    for (let sc: Scope | undefined = scope; sc; sc = sc.parent) {
+      const step = sc.steps.get(id);
+      if (step) return step;
+    }
+    return undefined;
+  };
+
+  // Every output visible from a scope (inner ones win), for scorers
+  const visibleOutputs = (scope: Scope): Record<string, any> => {
+    const chain: Scope[] = [];
+    for (let sc: Scope | undefined = scope; sc; sc = sc.parent) chain.unshift(sc);
+    return Object.assign({}, ...chain.map((sc) => Object.fromEntries(sc.outputs.entries())));
+  };
+
   // Evaluate inputs to a step
-  const readInputs = (s: PlanStep) => {
+  const readInputs = (s: PlanStep, scope: Scope) => {
     if (!("inputFrom" in s) || !s.inputFrom?.length) {
-      // First model/tool step uses task input by default
-      return ctx.input;
+      // First model/tool step uses task input (or the map item) by default
+      return scope.input;
     }
-    const arr = s.inputFrom.map((id) => out.get(id));
+    const arr = s.inputFrom.map((id) => lookup(scope, id));
     return arr.length === 1 ? arr[0] : arr;
   };
 
@@ -98,21 +305,28 @@ export async function runPlan(
     return true;
   };
 
-  // Read "stepId" or "stepId.path.to.field" from outputs
-  const refValue = (ref: string) => {
-    const [head, ...rest] = String(ref).split(".");
-    let v = out.get(head);
-    if (!rest.length) return v;
-    return readPath(v, rest.join("."));
+  // Read "stepId" or "stepId.path.to.field" from outputs; "item.*" / "index" inside map iterations
+  const refValue = (ref: string, scope: Scope) => {
+    if (isItemRef(ref)) {
+      for (let sc: Scope | undefined = scope; sc; sc = sc.parent) {
+        if (sc.iteration) return readPath(sc.iteration, ref.trim());
+      }
+    }
+    // "loop[2].critic": the head is the step id, the rest a path into its output
+    const head = refHead(ref);
+    const rest = String(ref).trim().slice(head.length);
+    const v = lookup(scope, head);
+    if (!rest) return v;
+    return readPath(v, rest);
   };
 
-  // Deep resolve ${...} or { var: "..." } placeholders; supports "item.*" in map
-  const deepResolve = (val: any, fromSteps: (ref: string) => any, item?: any): any => {
+  // Deep resolve ${...} or { var: "..." } placeholders
+  const deepResolve = (val: any, scope: Scope): any => {
+    const fromSteps = (ref: string) => refValue(ref, scope);
     if (typeof val === "string") {
       const m = val.match(/^\$\{([^}]+)\}$/);
       if (m) {
         const ref = m[1].trim();
-        if (ref.startsWith("item") && item !== undefined) return readPath({ item }, ref);
         let v = fromSteps(ref);
         if (v === undefined) {
           // common LLM synonyms: result/results and url/link
@@ -129,13 +343,11 @@ export async function runPlan(
     }
     if (val && typeof val === "object") {
       if ("var" in val && typeof (val as any).var === "string") {
-        const ref = String((val as any).var);
-        if (ref.startsWith("item") && item !== undefined) return readPath({ item }, ref);
-        return fromSteps(ref);
+        return fromSteps(String((val as any).var));
       }
-      if (Array.isArray(val)) return val.map((v) => deepResolve(v, fromSteps, item));
+      if (Array.isArray(val)) return val.map((v) => deepResolve(v, scope));
       const outVal: any = {};
-      for (const [k, v] of Object.entries(val)) outVal[k] = deepResolve(v, fromSteps, item);
+      for (const [k, v] of Object.entries(val)) outVal[k] = deepResolve(v, scope);
       return outVal;
     }
     return val;
@@ -157,20 +369,67 @@ export async function runPlan(
     };
     return { run };
   };
+  // Taken in runLeaf around model/tool execution only, so every leaf (dag, parallel, branch,
+  // loop or map) counts against maxConcurrency and nested groups cannot deadlock on it
   const sem = pool(maxConc);
 
+  // One attempt under its own AbortController, linked to ctx.signal and aborted once the step
+  // timeout passes, so timed-out routes and tools are cancelled instead of left running.
+  const runAttempt = async <T>(
+    stepId: string,
+    timeoutMs: number | undefined,
+    attempt: number,
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> => {
+    const parent = ctx.signal ?? undefined;
+    if (parent?.aborted) throw abortedError(parent);
+    const controller = new AbortController();
+    let timedOut: BoltError | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => controller.abort(parent?.reason);
+    parent?.addEventListener("abort", onAbort, { once: true });
+    // Settles the attempt even when the callee ignores its signal.
+    const stopped = new Promise<never>((_res, rej) => {
+      controller.signal.addEventListener("abort", () => rej(timedOut ?? abortedError(parent)), { once: true });
+    });
+    if (timeoutMs && timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = new BoltError("STEP_TIMEOUT", `Step '${stepId}' timed out after ${timeoutMs}ms`, undefined, {
+          stepId,
+          attempt,
+          timeoutMs,
+        });
+        onEvent({ type: "step:timeout", stepId, attempt, timeoutMs } as RunnerEvent);
+        controller.abort(timedOut);
+      }, timeoutMs);
+    }
+    try {
+      return await Promise.race([fn(controller.signal), stopped]);
+    } catch (err) {
+      if (timedOut) throw timedOut;
+      if (parent?.aborted) throw abortedError(parent, err);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onAbort);
+    }
+  };
+
   // Step runner with retry/backoff, guard, and optional cache
-  type ModelOrTool = Extract<PlanStep, { kind: "model" } | { kind: "tool" }>;
-  async function execWithRetry(s: ModelOrTool): Promise<any> {
+  async function execWithRetry(s: ModelOrTool, scope: Scope): Promise<any> {
+    const stepId = `${scope.prefix}${s.id}`;
     const max = s.guard?.retry?.max ?? 0;
     const backoff = s.guard?.retry?.backoffMs ?? 400;
     let attempt = 0;
 
     // eslint-disable-next-line no-constant-condition
     while (true) {
-      onEvent({ type: "step:start", stepId: s.id } as RunnerEvent);
+      onEvent({ type: "step:start", stepId } as RunnerEvent);
+      // Route ids keep counting across resumes, so a retried step never reuses one.
+      const n = attempts.get(stepId) ?? 0;
+      attempts.set(stepId, n + 1);
       try {
-        const input = readInputs(s);
+        const input = readInputs(s, scope);
 
         // Cache read (model/tool only)
         const cacheKey =
@@ -178,35 +437,30 @@ export async function runPlan(
         if (cacheKey && opts.cache) {
           const hit = await opts.cache.get(cacheKey);
           if (hit != null) {
-            onEvent({ type: "step:done", stepId: s.id, output: hit } as RunnerEvent);
+            onEvent({ type: "step:done", stepId, output: hit } as RunnerEvent);
             return hit;
           }
         }
 
         // Execute the step
-        const doExec = async () => {
+        const doExec = async (signal: AbortSignal) => {
           if (s.kind === "model") {
             return (router as any).route?.({
-              id: `${ctx.taskId}:${s.id}:${attempt}`,
+              id: `${ctx.taskId}:${stepId}:${n}`,
               agentId: s.agent,
               input,
               memoryScope: ctx.memoryScope,
+              signal,
             });
           }
           const tool = ctx.tools?.[s.toolId];
           if (!tool) throw new Error(`Tool not found: ${s.toolId}`);
           const rawArgs = s.args ?? input;
-          const args = deepResolve(rawArgs, refValue); // resolve ${...} and { var: ... }
-          return tool(args, { ...ctx });
+          const args = deepResolve(rawArgs, scope); // resolve ${...} and { var: ... }
+          return tool(args, { ...ctx, signal });
         };
 
-        // Optional per-step timeout hint (best-effort: we don't cancel the underlying call)
-        const result = s.timeoutMs && s.timeoutMs > 0
-          ? await Promise.race([
-              doExec(),
-              new Promise((_res, rej) => setTimeout(() => rej(new Error("Step timeout")), s.timeoutMs)),
-            ])
-          : await doExec();
+        const result = await runAttempt(stepId, s.timeoutMs ?? opts.stepTimeoutMs, attempt, doExec);
 
         if (!validate(s.guard, result)) throw new Error("Schema validation failed");
 
@@ -215,7 +469,7 @@ export async function runPlan(
           if (!scorer) {
             throw new Error(`Score check scorer not provided: ${s.guard.scoreCheck.scorer}`);
           }
-          const outputs = Object.fromEntries(out.entries());
+          const outputs = visibleOutputs(scope);
           const score = await scorer({ value: result, step: s, input, outputs });
           if (Number(score) < s.guard.scoreCheck.min) {
             throw new Error(`Score check failed (${s.guard.scoreCheck.scorer})`);
@@ -239,26 +493,41 @@ export async function runPlan(
           throw new Error("Run budget exceeded: latency");
         }
 
-        onEvent({ type: "step:done", stepId: s.id, output: result } as RunnerEvent);
+        onEvent({ type: "step:done", stepId, output: result } as RunnerEvent);
         return result;
       } catch (err) {
-        if (attempt >= max) throw err;
+        // A cancelled run is not retried.
+        if (attempt >= max || ctx.signal?.aborted) throw err;
         attempt++;
-        onEvent({ type: "step:retry", stepId: s.id, attempt } as RunnerEvent);
+        onEvent({ type: "step:retry", stepId, attempt } as RunnerEvent);
         await new Promise((res) => setTimeout(res, backoff * attempt));
       }
     }
   }
 
+  // Model/tool step, restored from the checkpoint when it already finished in an earlier run
+  const runLeaf = async (s: ModelOrTool, scope: Scope): Promise<any> => {
+    const stepId = `${scope.prefix}${s.id}`;
+    if (restored.has(stepId)) {
+      const output = restored.get(stepId);
+      onEvent({ type: "step:restored", stepId, output } as RunnerEvent);
+      return output;
+    }
+    const result = await sem.run(() => execWithRetry(s, scope));
+    completed.set(stepId, result);
+    await checkpoint("running");
+    return result;
+  };
+
   // Condition evaluator for branch steps
-  const evalCondition = (cond: any): boolean => {
+  const evalCondition = (cond: any, scope: Scope): boolean => {
     if (cond == null) return false;
-    if (typeof cond === "string") return Boolean(refValue(cond));
+    if (typeof cond === "string") return Boolean(refValue(cond, scope));
     if (typeof cond === "object") {
-      if ("truthy" in cond) return Boolean(refValue(cond.truthy));
+      if ("truthy" in cond) return Boolean(refValue(cond.truthy, scope));
       const bin = (pair: { left: any; right: any }, op: "eq" | "gt" | "lt") => {
-        const lhs = resolveExpr(pair.left);
-        const rhs = resolveExpr(pair.right);
+        const lhs = resolveExpr(pair.left, scope);
+        const rhs = resolveExpr(pair.right, scope);
         if (op === "eq") return lhs === rhs;
         if (op === "gt") return Number(lhs) > Number(rhs);
         if (op === "lt") return Number(lhs) < Number(rhs);
@@ -271,59 +540,59 @@ export async function runPlan(
     return false;
   };
 
-  const resolveExpr = (expr: any): any => {
+  const resolveExpr = (expr: any, scope: Scope): any => {
     if (expr && typeof expr === "object") {
-      if ("var" in expr && typeof expr.var === "string") return refValue(expr.var);
+      if ("var" in expr && typeof expr.var === "string") return refValue(expr.var, scope);
       if ("value" in expr) return (expr as any).value;
     }
     return expr;
   };
 
-  // Start
-  onEvent({ type: "plan", plan } as RunnerEvent);
-
-  for (const s of plan.steps) {
-    if (nestedStepIds.has(s.id)) continue;
+  // Run any step kind; composites recurse into their nested steps. `path` guards against a
+  // step that (transitively) contains itself.
+  const runStep = async (s: PlanStep, scope: Scope, path: string[]): Promise<void> => {
+    if (path.includes(s.id)) throw new Error(`Step '${s.id}' is nested inside itself`);
+    const within = [...path, s.id];
 
     // Parallel: run listed children concurrently
     if (s.kind === "parallel") {
-      const proms = s.children.map((cid) => {
-        const child = stepById.get(cid);
-        if (!child || child.kind === "parallel") throw new Error(`Invalid child in parallel: ${cid}`);
-        if (child.kind === "branch" || child.kind === "map") {
-          throw new Error(`Unsupported child kind in parallel: ${child.kind}`);
-        }
-        return sem.run(async () => {
-          const r = await execWithRetry(child as ModelOrTool);
-          out.set(child.id, r);
-        });
+      const group = s.maxConcurrency ? pool(Math.max(1, s.maxConcurrency)) : undefined;
+      const children = s.children.map((cid) => {
+        const child = findStep(scope, cid);
+        if (!child) throw new Error(`Invalid child in parallel: ${cid}`);
+        return child;
       });
-      await Promise.all(proms);
-      continue;
+      await Promise.all(
+        children.map((child) => {
+          const run = () => runStep(child, scope, within);
+          return group ? group.run(run) : run();
+        })
+      );
+      return;
     }
 
     // Branch: pick first matching branch, else 'else'
     if (s.kind === "branch") {
-      const picked = s.branches.find((b) => evalCondition(b.when));
+      const picked = s.branches.find((b) => evalCondition(b.when, scope));
       const seq = picked ? picked.then : s.else ?? [];
       for (const id of seq) {
-        const st = stepById.get(id);
-        if (!st || st.kind === "parallel" || st.kind === "branch") {
-          throw new Error(`Invalid step in branch.then/else: ${id}`);
-        }
-        const r = await execWithRetry(st as ModelOrTool);
-        out.set(st.id, r);
+        const st = findStep(scope, id);
+        if (!st) throw new Error(`Invalid step in branch.then/else: ${id}`);
+        await runStep(st, scope, within);
       }
-      continue;
+      return;
     }
 
-    // Map: iterate an array from itemsFrom and run a child step per item
+    // Map: iterate an array from itemsFrom and run the child template or body per item
     if (s.kind === "map") {
-      const items = out.get(s.itemsFrom);
+      const items = lookup(scope, s.itemsFrom);
       if (!Array.isArray(items)) {
         throw new Error(`map.itemsFrom '${s.itemsFrom}' did not yield an array`);
       }
+      if (!s.child && !s.steps?.length) throw new Error(`map '${s.id}' needs a child or steps`);
       const child = s.child;
+      const body = s.steps ?? [];
+      const bodyTop = body.filter((b) => !nestedOwners(body).has(b.id));
       const conc = Math.max(1, s.maxConcurrency ?? maxConc);
       const local = pool(conc);
 
@@ -331,41 +600,106 @@ export async function runPlan(
       await Promise.all(
         items.map((item, idx) =>
           local.run(async () => {
-            const childId = `${s.id}:${idx}`;
-            const childInput = s.fromItemAsInput ? item : readInputs(child as any);
-            const rawArgs = (child as any).args ?? childInput;
-            const args = deepResolve(rawArgs, refValue, item);
-
-            let r: any;
-            if (child.kind === "model") {
-              r = await (router as any).route?.({
-                id: `${ctx.taskId}:${childId}`,
-                agentId: child.agent,
-                input: childInput,
-                memoryScope: ctx.memoryScope,
-              });
-            } else {
-              const t = ctx.tools?.[child.toolId];
-              if (!t) throw new Error(`Tool not found: ${child.toolId}`);
-              r = await t(args, { ...ctx });
+            const iteration: Scope = {
+              outputs: new Map(),
+              steps: new Map(body.map((b) => [b.id, b])),
+              input: s.fromItemAsInput ? item : scope.input,
+              prefix: `${scope.prefix}${s.id}:${idx}:`,
+              iteration: { item, index: idx },
+              parent: scope,
+            };
+            if (child) {
+              // The template runs as "<map>:<index>"; fromItemAsInput wins over its inputFrom.
+              const step = {
+                ...child,
+                id: `${s.id}:${idx}`,
+                ...(s.fromItemAsInput ? { inputFrom: undefined } : {}),
+              } as ModelOrTool;
+              results[idx] = await runLeaf(step, { ...iteration, prefix: scope.prefix });
+              return;
             }
-            results[idx] = r;
+            for (const b of bodyTop) await runStep(b, iteration, within);
+            results[idx] = s.output ? iteration.outputs.get(s.output) : Object.fromEntries(iteration.outputs.entries());
           })
         )
       );
 
-      out.set(s.id, results);
-      continue;
+      scope.outputs.set(s.id, results);
+      return;
+    }
+
+    // Loop: run the body until the condition holds or maxIterations is reached. Each iteration
+    // sees the latest outputs of the previous one; the loop's output is the per-iteration history.
+    if (s.kind === "loop") {
+      const maxIterations = Math.max(1, Math.floor(s.maxIterations ?? 5));
+      const body = s.body.map((id) => {
+        const st = findStep(scope, id);
+        if (!st) throw new Error(`Invalid step in loop.body: ${id}`);
+        return st;
+      });
+      const history: Record<string, any>[] = [];
+      let reason: "until" | "maxIterations" = "maxIterations";
+      for (let i = 0; i < maxIterations; i++) {
+        onEvent({ type: "loop:iteration", stepId: `${scope.prefix}${s.id}`, iteration: i } as RunnerEvent);
+        const iteration: Scope = { outputs: new Map(), steps: new Map(), input: scope.input, prefix: `${scope.prefix}${s.id}:${i}:`, parent: scope };
+        for (const st of body) await runStep(st, iteration, within);
+        for (const [id, value] of iteration.outputs) scope.outputs.set(id, value);
+        history.push(Object.fromEntries(iteration.outputs.entries()));
+        scope.outputs.set(s.id, [...history]);
+        if (s.until != null && evalCondition(s.until, scope)) {
+          reason = "until";
+          break;
+        }
+      }
+      onEvent({ type: "loop:done", stepId: `${scope.prefix}${s.id}`, iteration: history.length, reason } as RunnerEvent);
+      return;
     }
 
     // Model/tool
-    const r = await execWithRetry(s as ModelOrTool);
-    out.set(s.id, r);
+    const r = await runLeaf(s, scope);
+    scope.outputs.set(s.id, r);
+  };
+
+  // Start
+  onEvent({ type: "plan", plan } as RunnerEvent);
+
+  try {
+    const topLevel = plan.steps.filter((s) => !ownerOf.has(s.id));
+    if (opts.mode === "dag") {
+      const deps = planDependencies(plan, topLevel, ownerOf);
+      const started = new Map<string, Promise<void>>();
+      let failure: { error: unknown } | undefined;
+      const start = (s: PlanStep): Promise<void> => {
+        let running = started.get(s.id);
+        if (!running) {
+          running = (async () => {
+            await Promise.all(deps.get(s.id)!.map((id) => start(stepById.get(id)!)));
+            // Once a step fails nothing new starts; steps already running finish.
+            if (failure) throw failure.error;
+            await runStep(s, root, []);
+          })();
+          running.catch((error) => {
+            failure ??= { error };
+          });
+          started.set(s.id, running);
+        }
+        return running;
+      };
+      await Promise.allSettled(topLevel.map(start));
+      if (failure) throw failure.error;
+    } else {
+      for (const s of topLevel) await runStep(s, root, []);
+    }
+  } catch (err) {
+    // Keep the steps that did finish; the original error wins over a failing store.
+    await checkpoint("failed", err).catch(() => {});
+    throw err;
   }
 
   const outputs: Record<string, any> = {};
   for (const id of plan.outputs) outputs[id] = out.get(id);
 
+  await checkpoint("done");
   onEvent({ type: "done", outputs } as RunnerEvent);
   return { outputs };
 }
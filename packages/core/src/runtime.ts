@@ -1,13 +1,30 @@
+import { suspendedRunKey, type PendingToolApproval, type SuspendedRun, type ToolApprovalDecision } from "./approvals";
 import { BoltError } from "./errors";
-import { Router, type AppRouter, type RouterOptions } from "./router";
+import type { QuotaPeriod, QuotaUsage } from "./quotas";
+import { Router, type AppRouter, type RouteExplanation, type RouterOptions } from "./router";
 import { InMemoryStore } from "./memory";
 import { Registry } from "./tools";
-import type { Agent, MemoryStore, ModelProvider, Tool, ToolRegistry } from "./types";
+import type {
+  Agent,
+  EmbeddingResult,
+  EmbedRequest,
+  ImageRequest,
+  ImageResult,
+  MemoryStore,
+  ModelProvider,
+  Tool,
+  ToolRegistry,
+} from "./types";
+import { UsageTracker, type RunUsage } from "./usage";
 
 export interface RuntimeRunOptions {
   id?: string;
   memoryScope?: string;
+  /** Tenant charged against `quotas` (default: derived from `memoryScope`) */
+  tenantId?: string;
   onToken?: (delta: string) => void;
+  /** Abort the run (provider streams, tool calls, reasoning passes); fails with code `ABORTED`. */
+  signal?: AbortSignal;
   throwOnError?: boolean;
 }
 
@@ -22,22 +39,16 @@ export interface RuntimeExplainRequest {
   memoryScope?: string;
 }
 
-export interface RuntimeExplainResult {
-  ok: boolean;
-  reason: string;
-  agentId: string;
-  agents: string[];
-  provider: string;
-  providers: string[];
-  memory: string;
+export interface RuntimeExplainResult extends RouteExplanation {
+  /** Every tool registered on the runtime */
   tools: string[];
-  env: { GROQ_API_KEY: boolean; REDIS_URL: boolean };
 }
 
 export interface RuntimeError {
   code: string;
   message: string;
   cause?: unknown;
+  details?: Record<string, unknown>;
 }
 
 export interface RunResult<T = unknown> {
@@ -47,6 +58,17 @@ export interface RunResult<T = unknown> {
   output?: T;
   streamedText?: string;
   error?: RuntimeError;
+  /** The run is parked on tool approvals (`error.code` is `RUN_SUSPENDED`); continue with `resume()`. */
+  suspended?: boolean;
+  pendingApprovals?: PendingToolApproval[];
+  /** Calls, tokens, estimated cost and latency per provider, including failed and suspended runs */
+  usage?: RunUsage;
+}
+
+export interface RuntimeResumeOptions {
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+  throwOnError?: boolean;
 }
 
 export interface RuntimeOptions extends Omit<RouterOptions, "memory" | "tools"> {
@@ -68,6 +90,20 @@ export interface BoltRuntime {
   run<T = unknown>(agentId: string, input: unknown, options?: RuntimeRunOptions): Promise<RunResult<T>>;
   route<T = unknown>(request: RuntimeRunRequest): Promise<RunResult<T>>;
   runParallel<T = unknown>(requests: RuntimeRunRequest[]): Promise<Array<RunResult<T>>>;
+  /** Continue a suspended run with approval decisions keyed by tool call id. */
+  resume<T = unknown>(
+    runId: string,
+    decisions: Record<string, ToolApprovalDecision>,
+    options?: RuntimeResumeOptions
+  ): Promise<RunResult<T>>;
+  /** Embed texts on a provider with the 'embedding' capability (batched; one provider per request). */
+  embed(request: EmbedRequest): Promise<EmbeddingResult>;
+  /** Generate images on a provider with the 'image' capability. */
+  generateImage(request: ImageRequest): Promise<ImageResult>;
+  /** Read a tenant's day/month quota counters. */
+  getQuotaUsage(tenantId: string): Promise<QuotaUsage>;
+  /** Zero a tenant's current day and/or month quota counters. */
+  resetQuota(tenantId: string, period?: QuotaPeriod): Promise<void>;
 }
 
 function makeRunId(agentId: string): string {
@@ -81,9 +117,25 @@ function normalizeAgents(agents: Agent[] | Record<string, Agent>): Record<string
   return agents;
 }
 
+function isSuspension(error: unknown): error is BoltError {
+  return error instanceof BoltError && error.code === "RUN_SUSPENDED";
+}
+
+function suspendedResult<T>(id: string, agentId: string, error: BoltError, usage: RunUsage): RunResult<T> {
+  return {
+    ok: false,
+    id,
+    agentId,
+    suspended: true,
+    pendingApprovals: (error.details?.pending as PendingToolApproval[] | undefined) ?? [],
+    error: normalizeError(error),
+    usage,
+  };
+}
+
 function normalizeError(error: unknown): RuntimeError {
   if (error instanceof BoltError) {
-    return { code: error.code, message: error.message, cause: error.cause };
+    return { code: error.code, message: error.message, cause: error.cause, details: error.details };
   }
   if (error instanceof Error) {
     return { code: "RUNTIME_ERROR", message: error.message };
@@ -158,13 +210,21 @@ export class DefaultBoltRuntime implements BoltRuntime {
 
   async route<T = unknown>(request: RuntimeRunRequest): Promise<RunResult<T>> {
     const id = request.id ?? makeRunId(request.agentId);
+    // Routers that fail before running the agent (or do not report usage) leave an empty report.
+    let usage: RunUsage | undefined;
+    const report = () => usage ?? new UsageTracker().snapshot();
     try {
       const output = await this.router.route({
         id,
         agentId: request.agentId,
         input: request.input,
         memoryScope: request.memoryScope,
+        tenantId: request.tenantId,
         onToken: request.onToken,
+        signal: request.signal,
+        onUsage: (reported) => {
+          usage = reported;
+        },
       });
       return {
         ok: true,
@@ -172,13 +232,71 @@ export class DefaultBoltRuntime implements BoltRuntime {
         agentId: request.agentId,
         output,
         streamedText: typeof output === "string" ? output : undefined,
+        usage: report(),
       };
     } catch (error) {
+      // Waiting for a reviewer is an expected outcome, not a failure to throw.
+      if (isSuspension(error)) return suspendedResult<T>(id, request.agentId, error, report());
       if (request.throwOnError !== false) throw error;
-      return { ok: false, id, agentId: request.agentId, error: normalizeError(error) };
+      return { ok: false, id, agentId: request.agentId, error: normalizeError(error), usage: report() };
+    }
+  }
+
+  async resume<T = unknown>(
+    runId: string,
+    decisions: Record<string, ToolApprovalDecision>,
+    options: RuntimeResumeOptions = {}
+  ): Promise<RunResult<T>> {
+    const suspended = await this.memory.get<SuspendedRun>(suspendedRunKey(runId));
+    const agentId = suspended?.agentId ?? "";
+    let usage: RunUsage | undefined;
+    const report = () => usage ?? new UsageTracker().snapshot();
+    try {
+      if (!this.router.resume) throw new BoltError("RESUME_UNSUPPORTED", "Router does not support resume");
+      const output = await this.router.resume({
+        id: runId,
+        decisions,
+        onToken: options.onToken,
+        signal: options.signal,
+        onUsage: (reported) => {
+          usage = reported;
+        },
+      });
+      return {
+        ok: true,
+        id: runId,
+        agentId,
+        output,
+        streamedText: typeof output === "string" ? output : undefined,
+        usage: report(),
+      };
+    } catch (error) {
+      if (isSuspension(error)) return suspendedResult<T>(runId, agentId, error, report());
+      if (options.throwOnError !== false) throw error;
+      return { ok: false, id: runId, agentId, error: normalizeError(error), usage: report() };
     }
   }
 
+  async embed(request: EmbedRequest): Promise<EmbeddingResult> {
+    if (!this.router.embed) throw new BoltError("EMBEDDINGS_UNSUPPORTED", "Router does not support embeddings");
+    return this.router.embed(request);
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    if (!this.router.generateImage) throw new BoltError("IMAGES_UNSUPPORTED", "Router does not support image generation");
+    return this.router.generateImage(request);
+  }
+
+  async getQuotaUsage(tenantId: string): Promise<QuotaUsage> {
+    if (!this.router.getQuotaUsage) throw new BoltError("QUOTAS_UNSUPPORTED", "Router does not support quotas");
+    return this.router.getQuotaUsage(tenantId);
+  }
+
+  async resetQuota(tenantId: string, period?: QuotaPeriod): Promise<void> {
+    if (!this.router.resetQuota) throw new BoltError("QUOTAS_UNSUPPORTED", "Router does not support quotas");
+    await this.router.resetQuota(tenantId, period);
+  }
+
   async runParallel<T = unknown>(requests: RuntimeRunRequest[]): Promise<Array<RunResult<T>>> {
     return Promise.all(requests.map((request) => this.route<T>(request)));
   }
@@ -0,0 +1,97 @@
+// packages/core/src/schema.ts
+type JsonSchema = boolean | {
+  type?: string | string[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value && typeof value === 'object' && !Array.isArray(value));
+}
+
+function hasJsonSchemaKeywords(schema: Record<string, unknown>): boolean {
+  return 'type' in schema || 'required' in schema || 'properties' in schema || 'items' in schema;
+}
+
+function validateJsonSchemaType(type: string, schema: JsonSchema, value: unknown): boolean {
+  if (type === 'string') return typeof value === 'string';
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (type === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  if (type === 'boolean') return typeof value === 'boolean';
+  if (type === 'null') return value === null;
+
+  if (type === 'array') {
+    if (!Array.isArray(value)) return false;
+    const items = isPlainObject(schema) ? schema.items : undefined;
+    if (!items) return true;
+    return value.every((item) => validateJsonSchema(items, item));
+  }
+
+  if (type === 'object') {
+    return validateJsonSchemaObject(schema, value);
+  }
+
+  return true;
+}
+
+function validateJsonSchemaObject(schema: JsonSchema, value: unknown): boolean {
+  if (!isPlainObject(schema) || !isPlainObject(value)) return false;
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required) {
+      if (!Object.prototype.hasOwnProperty.call(value, key)) return false;
+    }
+  }
+
+  if (isPlainObject(schema.properties)) {
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (Object.prototype.hasOwnProperty.call(value, key) && !validateJsonSchema(propertySchema, value[key])) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+function validateJsonSchema(schema: JsonSchema, value: unknown): boolean {
+  if (schema === true) return true;
+  if (schema === false) return false;
+  if (!isPlainObject(schema)) return true;
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.some((type) => validateJsonSchemaType(type, schema, value));
+  }
+
+  if (typeof schema.type === 'string') {
+    return validateJsonSchemaType(schema.type, schema, value);
+  }
+
+  if (schema.required || schema.properties) {
+    return validateJsonSchemaObject(schema, value);
+  }
+
+  return true;
+}
+
+/**
+ * Validate a value against a Zod-like schema (`safeParse`/`parse`) or a plain JSON Schema subset
+ * (type, required, properties, items). Unknown schema shapes pass.
+ */
+export function validateSchema(schema: any, value: any): boolean {
+  if (!schema) return true;
+  if (typeof schema.safeParse === 'function') return Boolean(schema.safeParse(value)?.success);
+  if (typeof schema.parse === 'function') {
+    try {
+      schema.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  if (isPlainObject(schema) && hasJsonSchemaKeywords(schema)) {
+    return validateJsonSchema(schema, value);
+  }
+  return true;
+}
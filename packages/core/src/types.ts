@@ -1,4 +1,5 @@
 // packages/core/src/types.ts
+import type { RunUsage } from './usage';
 
 export type Capability = 'text' | 'json' | 'vision' | 'image' | 'embedding';
 
@@ -10,19 +11,73 @@ export interface Message {
   trace?: any;
 }
 
+/** One conversation turn sent to a provider; providers map roles to their native message format. */
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** tool turns: the provider tool-call id being answered */
+  toolCallId?: string;
+  /** tool turns: the Bolt tool id that produced the content */
+  toolId?: string;
+  /** user turns: images sent alongside `content` (needs a 'vision' provider) */
+  images?: ImagePart[];
+}
+
+/**
+ * An image in agent input or a provider call. Exactly one of `url` (http(s) or data URL),
+ * `data` (base64 bytes) or `path` (local file, read by the router before the call) is expected.
+ */
+export interface ImagePart {
+  type: 'image';
+  url?: string;
+  data?: string;
+  path?: string;
+  /** Required with `data`; inferred from data URLs and file extensions otherwise */
+  mimeType?: string;
+  /** OpenAI fidelity hint */
+  detail?: 'auto' | 'low' | 'high';
+}
+
 export interface ProviderCallArgs {
   kind: 'text' | 'json' | 'image' | 'embedding';
   prompt?: string;
+  /** Structured conversation; when present providers send it instead of `prompt` (kept as a flat fallback). */
+  messages?: ProviderMessage[];
   schema?: any;        // zod or JSON schema
   input?: unknown;     // when not prompt-driven
+  /** Images for a prompt-only call; with `messages`, attach them to user turns instead */
+  images?: ImagePart[];
+  /** `kind: 'embedding'`: texts to embed, one vector each (a bare `prompt` counts as one text) */
+  texts?: string[];
+  /** `kind: 'image'`: generation options (the description is `prompt`) */
+  image?: ImageOptions;
   tools?: ProviderToolDefinition[];
   toolResults?: ProviderToolResult[];
   stream?: boolean;
   /** Called with incremental text tokens (if provider supports streaming) */
   onToken?: (delta: string) => void;
+  /** Cancels the provider request (streaming or not) when aborted */
+  signal?: AbortSignal;
   metadata?: Record<string, any>;
 }
 
+export interface ImageOptions {
+  /** Provider-specific size or aspect ratio, e.g. '1024x1024' or '16:9' */
+  size?: string;
+  /** Number of images (default: 1) */
+  count?: number;
+}
+
+/** Normalized image output: `ProviderResult.output` for `kind: 'image'` is `GeneratedImage[]`. */
+export interface GeneratedImage {
+  url?: string;
+  /** Base64 image bytes when the provider returns data instead of a URL */
+  b64?: string;
+  mimeType?: string;
+  /** The prompt the provider actually used, when it rewrites prompts */
+  revisedPrompt?: string;
+}
+
 export interface ProviderToolCall {
   id?: string;
   toolId: string;
@@ -39,12 +94,18 @@ export interface ProviderToolResult<T = any> {
   id: string;
   toolId: string;
   output: T;
+  /** The tool failed (timeout, invalid args, thrown error); `output` is `{ error }` so the model can recover */
+  isError?: boolean;
 }
 
+/** `output` is text or parsed JSON; `number[][]` for embeddings (one per text); `GeneratedImage[]` for images. */
 export interface ProviderResult<T = any> {
   output?: T;
   toolCalls?: ProviderToolCall[];
   tokens?: number;     // optional token count for budgeting
+  /** Provider-reported split of `tokens`, used for usage reports */
+  promptTokens?: number;
+  completionTokens?: number;
   trace?: any;
 }
 
@@ -53,6 +114,8 @@ export interface ModelProvider {
   supports: Capability[];
   call(args: ProviderCallArgs): Promise<ProviderResult>;
   estimateCost?: (args: { tokens?: number; input?: ProviderCallArgs }) => number;
+  /** Prompt token count used for pre-flight budget checks (default: a ~4 chars/token heuristic) */
+  countTokens?: (args: ProviderCallArgs) => number;
 }
 
 export interface ToolContext {
@@ -82,6 +145,10 @@ export interface Tool<TArgs = any, TOut = any> {
   kind?: CallableCapabilityKind;
   description?: string;
   schema?: any; // zod schema for args
+  /** Per-call timeout for provider-native tool calls (overrides the router default) */
+  timeoutMs?: number;
+  /** Side-effecting tools: model-requested calls wait for `RouterOptions.approveToolCall` or suspend the run */
+  requiresApproval?: boolean | ((args: TArgs) => boolean);
   run(args: TArgs, ctx: ToolContext): Promise<TOut>;
 }
 
@@ -103,7 +170,7 @@ type BaseStep = {
   guard?: Guard;
   /** optional cache signature key; "auto" derives from (step,input) */
   cacheKey?: string | 'auto';
-  /** per-step timeout in ms (soft; see notes) */
+  /** per-attempt timeout in ms; aborts the step's route or tool call (default: RunOptions.stepTimeoutMs) */
   timeoutMs?: number;
   /** optional idempotency key hint for tools */
   idempotencyKey?: string;
@@ -124,7 +191,7 @@ export type ToolStep = BaseStep & {
 
 export type ParallelStep = BaseStep & {
   kind: 'parallel';
-  children: string[];   // child step ids (model/tool), executed concurrently
+  children: string[];   // child step ids (any kind), executed concurrently
   maxConcurrency?: number;
 };
 
@@ -142,7 +209,7 @@ export type Condition =
 
 export type BranchStep = BaseStep & {
   kind: 'branch';
-  branches: { when: Condition; then: string[] }[];
+  branches: { when: Condition; then: string[] }[];   // step ids (any kind), run in order
   else?: string[];
 };
 
@@ -153,12 +220,28 @@ export type MapChild =
 export type MapStep = BaseStep & {
   kind: 'map';
   itemsFrom: string;        // step id whose output is an array
-  child: MapChild;          // template step to run for each item
+  child?: MapChild;         // template step to run for each item (or use `steps`)
+  /**
+   * Per-item sub-plan (any step kinds). Step ids are local to each iteration, `${item...}` and
+   * `${index}` refer to the current item, and outer step outputs stay readable.
+   */
+  steps?: PlanStep[];
+  /** Body step whose output becomes the item's result (default: all body outputs keyed by step id) */
+  output?: string;
   maxConcurrency?: number;  // per-map concurrency
-  fromItemAsInput?: boolean;// if true, pass the array item as the child's input
+  fromItemAsInput?: boolean;// if true, pass the array item as the child's (or body steps') input
 };
 
-export type PlanStep = ModelStep | ToolStep | ParallelStep | BranchStep | MapStep;
+export type LoopStep = BaseStep & {
+  kind: 'loop';
+  body: string[];           // step ids (any kind) run in order each iteration
+  /** Checked after each iteration; the loop stops once it holds */
+  until?: Condition;
+  /** Default: 5 */
+  maxIterations?: number;
+};
+
+export type PlanStep = ModelStep | ToolStep | ParallelStep | BranchStep | MapStep | LoopStep;
 
 export interface Plan { id: string; steps: PlanStep[]; outputs: string[] }
 
@@ -166,23 +249,105 @@ export interface MemoryStore {
   get<T = unknown>(key: string): Promise<T | null>;
   set<T = unknown>(key: string, value: T, ttlSeconds?: number): Promise<void>;
   patch<T extends object = any>(key: string, delta: Partial<T>): Promise<void>;
+  /** Atomically add to a numeric value (missing keys start at 0) and return the new total */
+  increment?(key: string, amount: number, ttlSeconds?: number): Promise<number>;
+  /** Remove a key; `get` returns null afterwards */
+  delete?(key: string): Promise<void>;
   appendConversation(id: string, m: Message): Promise<void>;
   history(id: string, limit?: number): Promise<Message[]>;
 }
 
 export interface AgentCtx {
   input: unknown;
-  call: (req: { kind: 'text' | 'json'; prompt: string; schema?: any }) => Promise<any>;
+  call: (req: {
+    kind: 'text' | 'json';
+    prompt: string;
+    messages?: ProviderMessage[];
+    schema?: any;
+    images?: ImagePart[];
+  }) => Promise<any>;
   memory: MemoryStore;
   tools: ToolRegistry;
+  /** Fires when the caller cancels the run; agents should stop issuing new calls */
+  signal?: AbortSignal;
+  /** Embeddings and image generation on a provider with the capability (set by the router) */
+  embed?: (req: Omit<EmbedRequest, 'signal'>) => Promise<EmbeddingResult>;
+  generateImage?: (req: Omit<ImageRequest, 'signal'>) => Promise<ImageResult>;
+}
+
+export interface EmbedRequest {
+  texts: string | string[];
+  /** Use this provider (id or prefix) instead of the preset order */
+  providerId?: string;
+  /** Texts per provider call (default: `RouterOptions.embeddingBatchSize`, else 96) */
+  batchSize?: number;
+  /** Tenant charged against `RouterOptions.quotas` (inside a route: the route's tenant) */
+  tenantId?: string;
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input text, in input order; all from the same provider */
+  embeddings: number[][];
+  providerId: string;
+  tokens?: number;
+  /** Tokens, cost and latency of this request, failed-over attempts included */
+  usage?: RunUsage;
+}
+
+export interface ImageRequest extends ImageOptions {
+  prompt: string;
+  providerId?: string;
+  /** Tenant charged against `RouterOptions.quotas` (inside a route: the route's tenant) */
+  tenantId?: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageResult {
+  images: GeneratedImage[];
+  providerId: string;
+  tokens?: number;
+  /** Tokens, cost and latency of this request, failed-over attempts included */
+  usage?: RunUsage;
+}
+
+/** What a guard does when its checker flags content. */
+export type GuardAction = 'block' | 'flag' | 'rewrite';
+
+/** Declarative guard rule, as written in agent config or markdown frontmatter. */
+export interface GuardRuleConfig {
+  /** Default: 'block' */
+  action?: GuardAction;
+  /** Case-insensitive words or phrases */
+  keywords?: string[];
+  /** Regular expression sources, matched case-insensitively */
+  patterns?: string[];
+  /** Ask the router's moderation checker; a list only flags those categories */
+  moderation?: boolean | string[];
+  /** Name of a checker registered in the router's `guardrails.checkers` */
+  checker?: string;
+  /** Replacement text for 'rewrite' (default: '[removed]') */
+  replaceWith?: string;
+  /** Error message for 'block' */
+  message?: string;
+}
+
+/** Per-agent guard rules; they run after the router-wide rules for the same stage. */
+export interface AgentGuardConfig {
+  input?: GuardRuleConfig[];
+  output?: GuardRuleConfig[];
 }
 
 export interface Agent {
   id: string;
   description?: string;
   capabilities: Capability[];
+  /** Provider id or `provider:model` pattern to prefer for this agent (e.g. 'groq:llama-3.3-70b-versatile'). */
+  model?: string;
   tools?: string[];
   outputSchema?: any;
+  /** Input/output guard rules enforced by the router */
+  guards?: AgentGuardConfig;
   run(ctx: AgentCtx): Promise<any>;
 }
 
@@ -254,6 +419,7 @@ export function agentToCapability<TArgs = any, TOut = any>(
         call: ctx.call ?? options.call ?? defaultAgentCall,
         memory: ctx.memory ?? options.memory ?? createUnavailableMemoryStore(),
         tools: ctx.tools ?? options.tools ?? createEmptyToolRegistry(),
+        signal: ctx.signal,
       }) as Promise<TOut>;
     },
   };
@@ -283,6 +449,8 @@ export type ToolFn = (args: any, ctx: RunnerContext) => Promise<any>;
 
 export interface RunnerContext {
   taskId: string;
+  /** Checkpoint key, unique per run (default: `taskId`) */
+  runId?: string;
   agentId: string;
   input: any;
   memoryScope?: string;
@@ -291,10 +459,16 @@ export interface RunnerContext {
 }
 
 export interface RunnerEvent {
-  type: 'plan' | 'step:start' | 'step:retry' | 'step:done' | 'done';
+  type: 'plan' | 'step:start' | 'step:retry' | 'step:timeout' | 'step:done' | 'step:restored' | 'loop:iteration' | 'loop:done' | 'done';
   plan?: Plan;
   stepId?: string;
   attempt?: number;
+  /** Set on 'step:timeout' */
+  timeoutMs?: number;
+  /** 'loop:iteration': the iteration starting (0-based); 'loop:done': iterations run */
+  iteration?: number;
+  /** Set on 'loop:done' */
+  reason?: 'until' | 'maxIterations';
   output?: any;
   outputs?: Record<string, any>;
 }
@@ -304,10 +478,36 @@ export interface StepCache {
   set(key: string, value: any, ttlSeconds?: number): Promise<void>;
 }
 
+/** Progress of a checkpointed plan run, saved after every model/tool step */
+export interface PlanCheckpoint {
+  runId: string;
+  /** The run's `taskId` when it differs from `runId` */
+  taskId?: string;
+  plan: Plan;
+  agentId: string;
+  input: any;
+  memoryScope?: string;
+  status: 'running' | 'failed' | 'done';
+  /** Outputs of finished model/tool steps, keyed by scoped step id (e.g. 'pages:2:summary') */
+  steps: Record<string, any>;
+  /** Attempts started per scoped step id, including failed ones */
+  attempts: Record<string, number>;
+  error?: { message: string; code?: string };
+  updatedAt: number;
+}
+
+export interface CheckpointStore {
+  load(runId: string): Promise<PlanCheckpoint | null>;
+  save(checkpoint: PlanCheckpoint): Promise<void>;
+  delete(runId: string): Promise<void>;
+}
+
 /** Optional budget limits for a run */
 export interface Budget {
   maxLatencyMs?: number;
   maxCostUSD?: number;
+  /** Prompt plus reported output tokens across a route's provider calls (enforced by the router) */
+  maxTokens?: number;
 }
 
 /** Cost estimator: given a step and its result, return $ cost */
@@ -325,10 +525,21 @@ export type ScoreScorer = (args: {
 }) => number | Promise<number>;
 
 export interface RunOptions {
+  /**
+   * 'sequential' (default) runs top-level steps in array order; 'dag' starts each step once the
+   * steps it reads (inputFrom, `${step.x}` args, itemsFrom, branch conditions) are done.
+   */
+  mode?: 'sequential' | 'dag';
+  /** Steps running at once (parallel children, and ready steps in 'dag' mode) */
   maxConcurrency?: number;
   onEvent?: (e: RunnerEvent) => void;
   cache?: StepCache | null;
   defaultStepTTLSeconds?: number;
+  /** Saves a checkpoint keyed by `ctx.taskId` after each model/tool step and when the run ends */
+  checkpoints?: CheckpointStore | null;
+  /** Restores the finished steps of an earlier run instead of executing them again */
+  resumeFrom?: PlanCheckpoint;
+  /** Timeout for each step attempt without its own `timeoutMs`; fails with `STEP_TIMEOUT` */
   stepTimeoutMs?: number;
   budget?: Budget;
   costEstimator?: CostEstimator;
@@ -0,0 +1,119 @@
+// packages/core/src/usage.ts
+
+export interface ProviderUsage {
+  /** Successful calls */
+  calls: number;
+  /** Calls that failed (and may have failed over) */
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  /** Summed call latency */
+  latencyMs: number;
+}
+
+/** Per-run usage report: what was spent, where, and how long it took. */
+export interface RunUsage {
+  providers: Record<string, ProviderUsage>;
+  /** Providers that returned results, in first-use order */
+  servedBy: string[];
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  /** Wall-clock time of the whole route */
+  latencyMs: number;
+  /** Provider tool-call rounds and individual tool calls */
+  toolIterations: number;
+  toolCalls: number;
+  /** Some token counts were estimated because the provider did not report them */
+  estimatedTokens: boolean;
+}
+
+function emptyProviderUsage(): ProviderUsage {
+  return { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUSD: 0, latencyMs: 0 };
+}
+
+/** Accumulates usage for one route. */
+export class UsageTracker {
+  private providers = new Map<string, ProviderUsage>();
+  private servedBy: string[] = [];
+  private toolIterations = 0;
+  private toolCalls = 0;
+  private estimatedTokens = false;
+  private startedAt = Date.now();
+
+  recordCall(
+    providerId: string,
+    call: {
+      ms: number;
+      costUSD?: number;
+      /** Provider-reported figures */
+      promptTokens?: number;
+      completionTokens?: number;
+      totalTokens?: number;
+      /** Fallback when the provider did not report prompt tokens */
+      estimatedPromptTokens: number;
+    }
+  ) {
+    const usage = this.provider(providerId);
+    const promptTokens = call.promptTokens ?? call.estimatedPromptTokens;
+    const completionTokens =
+      call.completionTokens ?? (call.totalTokens != null ? Math.max(0, call.totalTokens - promptTokens) : 0);
+    if (call.promptTokens == null || (call.completionTokens == null && call.totalTokens == null)) {
+      this.estimatedTokens = true;
+    }
+    usage.calls += 1;
+    usage.promptTokens += promptTokens;
+    usage.completionTokens += completionTokens;
+    usage.totalTokens += call.totalTokens ?? promptTokens + completionTokens;
+    usage.costUSD += call.costUSD ?? 0;
+    usage.latencyMs += call.ms;
+    if (!this.servedBy.includes(providerId)) this.servedBy.push(providerId);
+  }
+
+  recordFailure(providerId: string, ms: number) {
+    const usage = this.provider(providerId);
+    usage.failures += 1;
+    usage.latencyMs += ms;
+  }
+
+  recordToolRound(calls: number) {
+    this.toolIterations += 1;
+    this.toolCalls += calls;
+  }
+
+  snapshot(): RunUsage {
+    const providers = Object.fromEntries([...this.providers].map(([id, usage]) => [id, { ...usage }]));
+    const totals = [...this.providers.values()].reduce(
+      (acc, u) => ({
+        calls: acc.calls + u.calls,
+        promptTokens: acc.promptTokens + u.promptTokens,
+        completionTokens: acc.completionTokens + u.completionTokens,
+        totalTokens: acc.totalTokens + u.totalTokens,
+        costUSD: acc.costUSD + u.costUSD,
+      }),
+      { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUSD: 0 }
+    );
+    return {
+      providers,
+      servedBy: [...this.servedBy],
+      ...totals,
+      latencyMs: Date.now() - this.startedAt,
+      toolIterations: this.toolIterations,
+      toolCalls: this.toolCalls,
+      estimatedTokens: this.estimatedTokens,
+    };
+  }
+
+  private provider(providerId: string) {
+    let usage = this.providers.get(providerId);
+    if (!usage) {
+      usage = emptyProviderUsage();
+      this.providers.set(providerId, usage);
+    }
+    return usage;
+  }
+}
@@ -0,0 +1,89 @@
+// packages/core/src/vision.ts
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { BoltError } from './errors';
+import type { ImagePart, ProviderCallArgs } from './types';
+
+/** Flat per-image prompt estimate used by pre-flight budget and quota checks. */
+export const IMAGE_TOKEN_ESTIMATE = 765;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+};
+
+export function isImagePart(value: unknown): value is ImagePart {
+  return Boolean(value && typeof value === 'object' && (value as ImagePart).type === 'image');
+}
+
+/**
+ * Coerce an image reference to an `ImagePart`: http(s) and data URLs become `url`,
+ * other strings are treated as file paths. Returns undefined for anything else.
+ */
+export function toImagePart(value: unknown): ImagePart | undefined {
+  if (isImagePart(value)) return value;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const ref = value.trim();
+  if (/^(https?:|data:)/i.test(ref)) return { type: 'image', url: ref };
+  return { type: 'image', path: ref };
+}
+
+/** Split a base64 data URL into its MIME type and payload. */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | undefined {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/is.exec(url);
+  if (!match) return undefined;
+  return { mimeType: match[1] || 'application/octet-stream', data: match[2] };
+}
+
+/** `url` as given, or a data URL built from `data` (what OpenAI-style APIs accept). */
+export function imagePartUrl(part: ImagePart): string {
+  if (part.url) return part.url;
+  if (part.data) return `data:${part.mimeType ?? 'image/png'};base64,${part.data}`;
+  throw new BoltError('INVALID_IMAGE', 'Image part has no url or data (file paths are read by the router)');
+}
+
+/** Every image a provider call carries, on `args.images` or on message turns. */
+export function callImages(args: ProviderCallArgs): ImagePart[] {
+  const images = [...(args.images ?? [])];
+  for (const m of args.messages ?? []) if (m.images?.length) images.push(...m.images);
+  return images;
+}
+
+/** Image parts at the top level of agent input: the input itself, array items or object fields. */
+export function inputHasImages(input: unknown): boolean {
+  if (isImagePart(input)) return true;
+  const values = Array.isArray(input) ? input : input && typeof input === 'object' ? Object.values(input) : [];
+  return values.some((v) => isImagePart(v) || (Array.isArray(v) && v.some(isImagePart)));
+}
+
+async function loadImagePart(part: ImagePart): Promise<ImagePart> {
+  if (part.url || part.data || !part.path) return part;
+  let bytes: Buffer;
+  try {
+    bytes = await fs.readFile(part.path);
+  } catch (err: any) {
+    throw new BoltError('INVALID_IMAGE', `Could not read image '${part.path}': ${err?.message ?? err}`, err);
+  }
+  const { path: filePath, ...rest } = part;
+  const mimeType = part.mimeType ?? MIME_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? 'image/png';
+  return { ...rest, data: bytes.toString('base64'), mimeType };
+}
+
+/** Replace `path` image parts with base64 `data` so providers only see URLs and bytes. */
+export async function loadCallImages(args: ProviderCallArgs): Promise<ProviderCallArgs> {
+  if (!callImages(args).some((p) => p.path && !p.url && !p.data)) return args;
+  const load = (images?: ImagePart[]) => (images ? Promise.all(images.map(loadImagePart)) : undefined);
+  const out: ProviderCallArgs = { ...args, images: await load(args.images) };
+  if (args.messages) {
+    out.messages = await Promise.all(
+      args.messages.map(async (m) => (m.images?.length ? { ...m, images: await load(m.images) } : m))
+    );
+  }
+  if (!args.images) delete out.images;
+  return out;
+}
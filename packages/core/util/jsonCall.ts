@@ -0,0 +1,42 @@
+// packages/core/util/jsonCall.ts
+import type { ModelProvider } from '../src/types';
+
+/** The first `{...}` object in a string answer; structured output passes through. Undefined when unparseable. */
+export function extractJsonObject(output: unknown): unknown {
+  if (typeof output !== 'string') return output;
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start < 0 || end <= start) return undefined;
+  try {
+    return JSON.parse(output.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One `kind: 'json'` provider call that rejects (with `${label} aborted`) once `timeoutMs` elapses
+ * or `signal` fires, even if the provider ignores its own abort signal. Resolves to the raw output.
+ */
+export async function callJsonWithTimeout(
+  provider: ModelProvider,
+  prompt: string,
+  opts: { timeoutMs: number; signal?: AbortSignal; label: string }
+): Promise<unknown> {
+  // An already-aborted signal never fires 'abort' again, so the call is not started at all.
+  if (opts.signal?.aborted) throw new Error(`${opts.label} aborted`);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(opts.signal?.reason);
+  opts.signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+  try {
+    const stopped = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error(`${opts.label} aborted`)), { once: true });
+    });
+    const res = await Promise.race([provider.call({ kind: 'json', prompt, signal: controller.signal }), stopped]);
+    return res.output;
+  } finally {
+    clearTimeout(timer);
+    opts.signal?.removeEventListener('abort', onAbort);
+  }
+}
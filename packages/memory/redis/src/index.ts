@@ -141,6 +141,22 @@ export class RedisMemoryStore implements MemoryStore {
     await this.set<T>(key, next);
   }
 
+  /** Atomic counter (INCRBYFLOAT); values stay readable through `get`. */
+  async increment(key: string, amount: number, ttlSeconds?: number): Promise<number> {
+    await this.ensure();
+    const k = this.kKv(key);
+    const ex = ttlSeconds ?? this.ttl;
+    const tx = this.client.multi().incrByFloat(k, amount);
+    if (ex > 0) tx.expire(k, ex);
+    const [total] = await tx.exec();
+    return Number(total);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensure();
+    await this.client.del(this.kKv(key));
+  }
+
   // ---- Conversation history ----
   async appendConversation(id: string, m: Message): Promise<void> {
     await this.ensure();
@@ -15,7 +15,8 @@ export function handle(router: AppRouter) {
       ?? req.headers.get('x-bolt-id')
       ?? (typeof randomUUID === 'function' ? randomUUID() : (crypto as any).randomUUID());
 
-    const result = await router.route({ id, agentId, input, memoryScope });
+    // client disconnects cancel the run
+    const result = await router.route({ id, agentId, input, memoryScope, signal: req.signal });
     return new Response(JSON.stringify(result), { headers: { 'content-type': 'application/json' } });
   };
 }
\ No newline at end of file
@@ -12,12 +12,22 @@ import {
 import { createAgentFromMarkdown } from "@bolt-ai/agents";
 import type {
   AppRouter,
+  ApproveToolCall,
   Budget,
   CircuitBreakerOptions,
+  FailoverOptions,
+  GuardrailOptions,
+  HedgeOptions,
   ModelProvider,
+  PresetClassifier,
+  ProviderFactory,
   ProviderPreset,
+  QuotaOptions,
+  RateLimitOptions,
   RedactionOptions,
   RouteCostEstimator,
+  RouterPlugin,
+  ToolCallOptions,
   Agent,
   MemoryStore,
 } from "@bolt-ai/core";
@@ -32,16 +42,36 @@ export type NextCreateOptions = {
   providerOrder?: string[];
   /** Provide providers explicitly (skips auto-detect) */
   providers?: ModelProvider[];
+  /** Factories for agent `provider:model` pins (auto-detected alongside providers) */
+  providerFactories?: Record<string, ProviderFactory>;
   /** Circuit breaker for provider failures */
   circuitBreaker?: CircuitBreakerOptions;
+  /** Fail over to the next provider on transient provider errors */
+  failover?: boolean | FailoverOptions;
+  /** Per-provider requests/min, tokens/min and concurrency limits */
+  rateLimits?: RateLimitOptions;
+  /** Race the next provider when the first is slow (delay in ms or options) */
+  hedge?: number | HedgeOptions;
   /** Route-level budget enforcement */
   budget?: Budget;
   /** Route-level cost estimator */
   costEstimator?: RouteCostEstimator;
   /** Redaction policy for prompts */
   redaction?: RedactionOptions;
+  /** Input/output moderation guardrails (agents add rules via `guards` frontmatter) */
+  guardrails?: GuardrailOptions;
+  /** Concurrency, timeouts and error handling for provider tool calls */
+  toolCalls?: ToolCallOptions;
+  /** Reviewer hook for tools with `requiresApproval` */
+  approveToolCall?: ApproveToolCall;
+  /** Texts per provider call for `router.embed()` */
+  embeddingBatchSize?: number;
+  /** Per-tenant daily/monthly token and USD quotas */
+  quotas?: QuotaOptions;
   /** Optional classifier used when preset = "auto" */
-  classify?: (input: unknown, agent?: Agent) => Exclude<ProviderPreset, "auto">;
+  classify?: PresetClassifier;
+  /** Route middleware (logging, prompt rewriting, response filtering) */
+  plugins?: RouterPlugin[];
   /** In-app agents directory (relative to process.cwd(), e.g. 'agents') */
   agentsDir?: string;
   /** Explicit agents map (alternative to agentsDir) */
@@ -72,10 +102,12 @@ export async function createAppRouter(
 
   // ----- Providers -----
   const providers: ModelProvider[] = [];
+  let providerFactories = opts.providerFactories;
   if (opts.providers?.length) {
     providers.push(...opts.providers);
   } else if (opts.providerAutoDetect !== false) {
     providers.push(...await detectProviders(process.env));
+    providerFactories ??= await detectProviderFactories(process.env);
   }
 
   // ----- Memory (default InMemory; optionally Redis) -----
@@ -96,15 +128,25 @@ export async function createAppRouter(
   // ----- Core router (pass resolved memory!) -----
   const router = createCoreRouter({
     providers,
+    providerFactories,
     events,
     memory,
     preset: opts.preset,
     providerOrder: opts.providerOrder,
     circuitBreaker: opts.circuitBreaker,
+    failover: opts.failover,
+    rateLimits: opts.rateLimits,
+    hedge: opts.hedge,
     budget: opts.budget,
     costEstimator: opts.costEstimator,
     redaction: opts.redaction,
+    guardrails: opts.guardrails,
+    toolCalls: opts.toolCalls,
+    approveToolCall: opts.approveToolCall,
+    embeddingBatchSize: opts.embeddingBatchSize,
+    quotas: opts.quotas,
     classify: opts.classify,
+    plugins: opts.plugins,
   });
 
   // ====== Agents ======
@@ -176,30 +218,36 @@ export async function createAppRouter(
   return router;
 }
 
-export async function detectProviders(
-  env: NodeJS.ProcessEnv,
-  loadProvider: ProviderModuleLoader = defaultProviderLoader
-): Promise<ModelProvider[]> {
-  const candidates = [
+function providerCandidates(env: NodeJS.ProcessEnv) {
+  return [
     {
+      prefix: "openai",
       key: env.OPENAI_API_KEY,
       specifier: "@bolt-ai/providers-openai",
       factory: "createOpenAIProvider",
     },
     {
+      prefix: "gemini",
       key: env.GEMINI_API_KEY ?? env.GOOGLE_API_KEY,
       specifier: "@bolt-ai/providers-gemini",
       factory: "createGeminiProvider",
     },
     {
+      prefix: "groq",
       key: env.GROQ_API_KEY,
       specifier: "@bolt-ai/providers-groq",
       factory: "createGroqProvider",
     },
   ];
+}
+
+export async function detectProviders(
+  env: NodeJS.ProcessEnv,
+  loadProvider: ProviderModuleLoader = defaultProviderLoader
+): Promise<ModelProvider[]> {
   const providers: ModelProvider[] = [];
 
-  for (const candidate of candidates) {
+  for (const candidate of providerCandidates(env)) {
     if (!candidate.key) continue;
     try {
       const module = await loadProvider(candidate.specifier);
@@ -215,6 +263,29 @@ export async function detectProviders(
   return providers;
 }
 
+/** Factories for `provider:model` agent pins (e.g. `model: groq:llama-3.1-8b-instant`) keyed by id prefix. */
+export async function detectProviderFactories(
+  env: NodeJS.ProcessEnv,
+  loadProvider: ProviderModuleLoader = defaultProviderLoader
+): Promise<Record<string, ProviderFactory>> {
+  const factories: Record<string, ProviderFactory> = {};
+
+  for (const candidate of providerCandidates(env)) {
+    if (!candidate.key) continue;
+    try {
+      const module = await loadProvider(candidate.specifier);
+      const factory = module[candidate.factory];
+      if (typeof factory === "function") {
+        factories[candidate.prefix] = (model) => factory({ apiKey: candidate.key, model });
+      }
+    } catch {
+      // Provider packages are optional for Next auto-detection.
+    }
+  }
+
+  return factories;
+}
+
 async function defaultProviderLoader(specifier: string): Promise<Record<string, any>> {
   return import(/* @vite-ignore */ specifier);
 }
@@ -28,6 +28,8 @@ export function sse(routerOrPromise: Promise<AppRouter> | AppRouter) {
               agentId,
               input,
               memoryScope,
+              // closing the EventSource aborts the request, which stops the generation
+              signal: req.signal,
               // IMPORTANT: stream tokens via onToken
               onToken: (delta: string) => {
                 text += delta;
@@ -50,9 +52,13 @@ export function sse(routerOrPromise: Promise<AppRouter> | AppRouter) {
 
             send('done', {});
           } catch (e: any) {
-            send('error', { message: e?.message || String(e) });
+            if (!req.signal?.aborted) send('error', { message: e?.message || String(e) });
           } finally {
-            controller.close();
+            try {
+              controller.close();
+            } catch {
+              // stream already cancelled by the client
+            }
           }
         })();
       }
@@ -127,6 +127,78 @@ describe("Gemini provider", () => {
     });
   });
 
+  it("maps conversation messages to model turns and a system instruction", async () => {
+    const client = createClient({ text: "Sure", usageMetadata: { totalTokenCount: 20 } });
+    const provider = createGeminiProvider({ client, apiKey: "test", model: "gemini-test" });
+
+    await provider.call({
+      kind: "text",
+      prompt: "Be brief.\n\nAnd now?",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+        { role: "tool", toolId: "local.kb.lookup", toolCallId: "call_1", content: "{\"summary\":\"Found\"}" },
+        { role: "user", content: "And now?" },
+      ],
+    });
+    expect(client.models.generateContent).toHaveBeenCalledWith({
+      model: "gemini-test",
+      contents: [
+        { role: "user", parts: [{ text: "Hi" }] },
+        { role: "model", parts: [{ text: "Hello" }] },
+        {
+          role: "user",
+          parts: [
+            {
+              functionResponse: {
+                id: "call_1",
+                name: "local_kb_lookup",
+                response: { summary: "Found" },
+              },
+            },
+          ],
+        },
+        { role: "user", parts: [{ text: "And now?" }] },
+      ],
+      config: { temperature: 0.2, systemInstruction: "Be brief." },
+    });
+  });
+
+  it("maps image parts on user turns to inlineData and fileData parts", async () => {
+    const client = createClient({ text: "A cat" });
+    const provider = createGeminiProvider({ client, apiKey: "test", model: "gemini-test" });
+
+    await provider.call({
+      kind: "text",
+      prompt: "What is this?",
+      messages: [
+        {
+          role: "user",
+          content: "What is this?",
+          images: [
+            { type: "image", data: "aGk=", mimeType: "image/jpeg" },
+            { type: "image", url: "data:image/webp;base64,d2Vi" },
+            { type: "image", url: "gs://bucket/cat.png" },
+          ],
+        },
+      ],
+    });
+
+    expect(provider.supports).toContain("vision");
+    expect(client.models.generateContent.mock.calls[0][0].contents).toEqual([
+      {
+        role: "user",
+        parts: [
+          { text: "What is this?" },
+          { inlineData: { mimeType: "image/jpeg", data: "aGk=" } },
+          { inlineData: { mimeType: "image/webp", data: "d2Vi" } },
+          { fileData: { fileUri: "gs://bucket/cat.png", mimeType: "image/png" } },
+        ],
+      },
+    ]);
+  });
+
   it("passes function declarations and returns provider function calls", async () => {
     const client = createClient({
       functionCalls: [
@@ -197,4 +269,52 @@ describe("Gemini provider", () => {
       config: { temperature: 0.2 },
     });
   });
+
+  it("maps embedContent and generateImages responses to normalized outputs", async () => {
+    const embedContent = vi.fn().mockResolvedValue({ embeddings: [{ values: [0.1, 0.2] }, { values: [0.3, 0.4] }] });
+    const generateImages = vi.fn().mockResolvedValue({
+      generatedImages: [{ image: { imageBytes: "aGk=", mimeType: "image/png" } }],
+    });
+    const client = { models: { ...createClient({}).models, embedContent, generateImages } };
+    const provider = createGeminiProvider({ client, apiKey: "test", model: "gemini-test" });
+
+    await expect(provider.call({ kind: "embedding", texts: ["a", "b"] })).resolves.toEqual({
+      output: [[0.1, 0.2], [0.3, 0.4]],
+      tokens: 1,
+    });
+    expect(embedContent).toHaveBeenCalledWith({ model: "gemini-embedding-001", contents: ["a", "b"] });
+    await expect(provider.call({ kind: "image", prompt: "a cat", image: { size: "16:9" } })).resolves.toEqual({
+      output: [{ b64: "aGk=", mimeType: "image/png" }],
+    });
+    expect(generateImages).toHaveBeenCalledWith({
+      model: "imagen-3.0-generate-002",
+      prompt: "a cat",
+      config: { numberOfImages: 1, aspectRatio: "16:9" },
+    });
+  });
+
+  it("derives capabilities from the model name and reports Vertex embedding token counts", async () => {
+    const embedContent = vi.fn().mockResolvedValue({
+      embeddings: [
+        { values: [0.1], statistics: { tokenCount: 3 } },
+        { values: [0.2], statistics: { tokenCount: 4 } },
+      ],
+    });
+    const client = { models: { ...createClient({}).models, embedContent } };
+    const embedder = createGeminiProvider({ client, apiKey: "test", model: "text-embedding-004" });
+
+    expect(embedder.supports).toEqual(["embedding"]);
+    expect(createGeminiProvider({ client, apiKey: "test", model: "imagen-4.0-generate-001" }).supports).toEqual(["image"]);
+    expect(createGeminiProvider({ client, apiKey: "test", model: "gemini-pro" }).supports).toEqual(["text", "json"]);
+    expect(createGeminiProvider({ client, apiKey: "test", model: "gemini-2.5-flash" }).supports).toEqual([
+      "text",
+      "json",
+      "vision",
+    ]);
+    await expect(embedder.call({ kind: "embedding", texts: ["a", "b"] })).resolves.toEqual({
+      output: [[0.1], [0.2]],
+      tokens: 7,
+    });
+    expect(embedContent).toHaveBeenCalledWith({ model: "text-embedding-004", contents: ["a", "b"] });
+  });
 });
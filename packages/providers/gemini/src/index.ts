@@ -1,6 +1,11 @@
+import { estimatePromptTokens, parseDataUrl } from "@bolt-ai/core";
 import type {
+  Capability,
+  GeneratedImage,
+  ImagePart,
   ModelProvider,
   ProviderCallArgs,
+  ProviderMessage,
   ProviderResult,
   ProviderToolCall,
   ProviderToolDefinition,
@@ -14,6 +19,8 @@ type GeminiClient = {
   models: {
     generateContent(args: Record<string, unknown>): Promise<unknown>;
     generateContentStream?(args: Record<string, unknown>): Promise<unknown>;
+    embedContent?(args: Record<string, unknown>): Promise<unknown>;
+    generateImages?(args: Record<string, unknown>): Promise<unknown>;
   };
 };
 
@@ -21,6 +28,13 @@ export interface GeminiProviderOptions {
   apiKey?: string;
   model?: string;
   temperature?: number;
+  /**
+   * Model for `kind: "embedding"` calls (default: GEMINI_EMBEDDING_MODEL or gemini-embedding-001).
+   * Chat providers only declare `embedding` when this (or the env var) is set.
+   */
+  embeddingModel?: string;
+  /** Model for `kind: "image"` calls (default: GEMINI_IMAGE_MODEL or imagen-3.0-generate-002). Chat providers only declare `image` when set. */
+  imageModel?: string;
   client?: GeminiClient;
 }
 
@@ -32,45 +46,122 @@ export function createGeminiProvider(opts: GeminiProviderOptions | string = {}):
   if (!apiKey && !options.client) throw new Error("GEMINI_API_KEY or GOOGLE_API_KEY is required");
   const model = options.model ?? process.env.GEMINI_MODEL ?? "gemini-2.5-flash";
   const temperature = options.temperature ?? 0.2;
+  const supports = geminiCapabilities(model);
+  const embeddingModelSetting = options.embeddingModel ?? process.env.GEMINI_EMBEDDING_MODEL;
+  const imageModelSetting = options.imageModel ?? process.env.GEMINI_IMAGE_MODEL;
+  if (embeddingModelSetting && !supports.includes("embedding")) supports.push("embedding");
+  if (imageModelSetting && !supports.includes("image")) supports.push("image");
+  const embeddingModel = supports[0] === "embedding" ? model : embeddingModelSetting ?? "gemini-embedding-001";
+  const imageModel = supports[0] === "image" ? model : imageModelSetting ?? "imagen-3.0-generate-002";
   const client: GeminiClient =
     options.client ?? (new GoogleGenAI({ apiKey }) as unknown as GeminiClient);
 
   return {
     id: `gemini:${model}`,
-    supports: ["text", "json"],
+    supports,
     async call(args: ProviderCallArgs): Promise<ProviderResult> {
+      if (args.kind === "embedding") {
+        if (!client.models.embedContent) throw new Error("Gemini client does not support embeddings");
+        const texts = args.texts?.length ? args.texts : [args.prompt ?? ""];
+        const resp = (await client.models.embedContent({
+          model: embeddingModel,
+          contents: texts,
+          ...(args.signal ? { config: { abortSignal: args.signal } } : {}),
+        })) as any;
+        return {
+          output: fromGeminiEmbeddings(resp?.embeddings),
+          tokens: geminiEmbeddingTokens(resp?.embeddings) ?? estimatePromptTokens({ kind: "embedding", texts }),
+        };
+      }
+      if (args.kind === "image") {
+        if (!client.models.generateImages) throw new Error("Gemini client does not support image generation");
+        const size = args.image?.size;
+        const resp = (await client.models.generateImages({
+          model: imageModel,
+          prompt: args.prompt ?? "",
+          config: {
+            numberOfImages: args.image?.count ?? 1,
+            // Imagen takes aspect ratios ("16:9"); pixel sizes are left to the model default.
+            ...(size?.includes(":") ? { aspectRatio: size } : {}),
+            ...(args.signal ? { abortSignal: args.signal } : {}),
+          },
+        })) as any;
+        return { output: fromGeminiImages(resp?.generatedImages) };
+      }
+
       const prompt =
         args.prompt ??
         (typeof args.input === "string" ? args.input : JSON.stringify(args.input ?? ""));
-      const contents = buildGeminiContents(prompt, args.toolResults);
+      const conversation = args.messages?.length
+        ? args.messages
+        : args.images?.length
+          ? [{ role: "user" as const, content: prompt, images: args.images }]
+          : prompt;
+      const contents = buildGeminiContents(conversation, args.toolResults);
       const request = buildGeminiRequest({
         model,
         temperature,
         contents,
+        systemInstruction: typeof conversation === "string" ? undefined : extractGeminiSystemInstruction(conversation),
         tools: args.tools,
         kind: args.kind,
         schema: args.schema,
+        signal: args.signal,
       });
 
       if (args.onToken && args.kind === "text" && client.models.generateContentStream) {
         const stream = await client.models.generateContentStream(request);
-        return collectGeminiStream(stream, args.onToken, args.tools);
+        return collectGeminiStream(stream, args.onToken, args.tools, args.signal);
       }
 
       const resp = await client.models.generateContent(request);
       const raw = resp as any;
       const toolCalls = fromGeminiFunctionCalls(extractGeminiFunctionCalls(raw), args.tools);
       if (toolCalls.length) {
-        return { toolCalls, tokens: raw.usageMetadata?.totalTokenCount };
+        return { toolCalls, ...fromGeminiUsage(raw.usageMetadata) };
       }
 
       const content = extractGeminiText(raw);
       const output = args.kind === "json" ? safeParseJSON(content) : content;
-      return { output, tokens: raw.usageMetadata?.totalTokenCount };
+      return { output, ...fromGeminiUsage(raw.usageMetadata) };
     },
   };
 }
 
+/**
+ * Capabilities of a Gemini model, from its name: embedding and Imagen models only do that,
+ * Gemini chat models do text, json and vision (except the text-only gemini-1.0 / gemini-pro).
+ */
+export function geminiCapabilities(model: string): Capability[] {
+  const name = model.toLowerCase().replace(/^.*\//, "");
+  if (name.includes("embedding")) return ["embedding"];
+  if (name.startsWith("imagen")) return ["image"];
+  const vision = name.startsWith("gemini") && !/^gemini-(1\.0-)?pro(-\d+)?$/.test(name);
+  return vision ? ["text", "json", "vision"] : ["text", "json"];
+}
+
+/** Vertex reports per-embedding token counts; the Gemini API does not, so callers estimate. */
+function geminiEmbeddingTokens(embeddings: unknown): number | undefined {
+  if (!Array.isArray(embeddings)) return undefined;
+  const counts = embeddings.map((item: any) => item?.statistics?.tokenCount);
+  if (!counts.length || counts.some((count) => typeof count !== "number")) return undefined;
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+export function fromGeminiEmbeddings(embeddings: unknown): number[][] {
+  if (!Array.isArray(embeddings)) return [];
+  return embeddings.map((item: any) => (Array.isArray(item?.values) ? item.values : []));
+}
+
+export function fromGeminiImages(generated: unknown): GeneratedImage[] {
+  if (!Array.isArray(generated)) return [];
+  return generated.map((item: any) => ({
+    b64: item?.image?.imageBytes ?? undefined,
+    mimeType: item?.image?.mimeType ?? undefined,
+    revisedPrompt: item?.enhancedPrompt ?? undefined,
+  }));
+}
+
 export function toGeminiFunctionName(toolId: string): string {
   const normalized = toolId.replace(/[^A-Za-z0-9_]/g, "_");
   if (/^[A-Za-z_]/.test(normalized)) return normalized.slice(0, 64);
@@ -113,8 +204,58 @@ export function fromGeminiFunctionCalls(
     .filter((toolCall): toolCall is ProviderToolCall => Boolean(toolCall));
 }
 
-export function buildGeminiContents(prompt: string, toolResults?: ProviderToolResult[]) {
-  const contents: any[] = [{ role: "user", parts: [{ text: prompt }] }];
+/** System turns go to `config.systemInstruction`; Gemini contents only carry user/model turns. */
+export function extractGeminiSystemInstruction(messages: ProviderMessage[]): string | undefined {
+  const text = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content.trim())
+    .filter(Boolean)
+    .join("\n\n");
+  return text || undefined;
+}
+
+export function toGeminiContents(messages: ProviderMessage[]) {
+  return messages
+    .filter((message) => message.role !== "system")
+    .map((message) => {
+      if (message.role === "assistant") return { role: "model", parts: [{ text: message.content }] };
+      if (message.role === "tool" && message.toolId) {
+        return {
+          role: "user",
+          parts: [
+            {
+              functionResponse: {
+                ...(message.toolCallId ? { id: message.toolCallId } : {}),
+                name: toGeminiFunctionName(message.toolId),
+                response: normalizeGeminiFunctionResponse(parseToolContent(message.content)),
+              },
+            },
+          ],
+        };
+      }
+      if (message.images?.length) return { role: "user", parts: toGeminiParts(message.content, message.images) };
+      return { role: "user", parts: [{ text: message.content }] };
+    });
+}
+
+/** Text plus `inlineData` (base64 and data URLs) or `fileData` (other URLs) parts. */
+export function toGeminiParts(text: string, images: ImagePart[]) {
+  const parts: any[] = text ? [{ text }] : [];
+  for (const image of images) {
+    const inline = image.data
+      ? { mimeType: image.mimeType ?? "image/png", data: image.data }
+      : image.url
+        ? parseDataUrl(image.url)
+        : undefined;
+    if (inline) parts.push({ inlineData: inline });
+    else if (image.url) parts.push({ fileData: { fileUri: image.url, mimeType: image.mimeType ?? "image/png" } });
+    else throw new Error("Gemini image parts need a url or base64 data");
+  }
+  return parts;
+}
+
+export function buildGeminiContents(prompt: string | ProviderMessage[], toolResults?: ProviderToolResult[]) {
+  const contents: any[] = typeof prompt === "string" ? [{ role: "user", parts: [{ text: prompt }] }] : toGeminiContents(prompt);
   if (!toolResults?.length) return contents;
 
   contents.push({
@@ -135,13 +276,17 @@ function buildGeminiRequest(args: {
   model: string;
   temperature: number;
   contents: unknown[];
+  systemInstruction?: string;
   tools?: ProviderToolDefinition[];
   kind: ProviderCallArgs["kind"];
   schema?: unknown;
+  signal?: AbortSignal;
 }) {
   const tools = toGeminiTools(args.tools);
   const config = {
     temperature: args.temperature,
+    ...(args.systemInstruction ? { systemInstruction: args.systemInstruction } : {}),
+    ...(args.signal ? { abortSignal: args.signal } : {}),
     ...(args.kind === "json" ? { responseMimeType: "application/json" } : {}),
     ...(args.kind === "json" && args.schema ? { responseSchema: args.schema } : {}),
     ...(tools?.length ? { tools, toolConfig: { functionCallingConfig: { mode: "AUTO" } } } : {}),
@@ -157,12 +302,16 @@ function buildGeminiRequest(args: {
 async function collectGeminiStream(
   stream: unknown,
   onToken: (delta: string) => void,
-  tools?: ProviderToolDefinition[]
+  tools?: ProviderToolDefinition[],
+  signal?: AbortSignal
 ): Promise<ProviderResult> {
   let full = "";
   const functionCalls: unknown[] = [];
+  let usageMetadata: unknown;
 
   for await (const chunk of stream as AsyncIterable<any>) {
+    signal?.throwIfAborted();
+    if (chunk?.usageMetadata) usageMetadata = chunk.usageMetadata;
     const text = extractGeminiText(chunk);
     if (text) {
       full += text;
@@ -172,8 +321,8 @@ async function collectGeminiStream(
   }
 
   const toolCalls = fromGeminiFunctionCalls(functionCalls, tools);
-  if (toolCalls.length) return { toolCalls };
-  return { output: full };
+  if (toolCalls.length) return { toolCalls, ...fromGeminiUsage(usageMetadata) };
+  return { output: full, ...fromGeminiUsage(usageMetadata) };
 }
 
 function extractGeminiText(response: any): string {
@@ -196,6 +345,22 @@ function normalizeGeminiFunctionResponse(output: unknown) {
   return { result: output };
 }
 
+function parseToolContent(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+function fromGeminiUsage(metadata: any): Pick<ProviderResult, "tokens" | "promptTokens" | "completionTokens"> {
+  return {
+    tokens: metadata?.totalTokenCount,
+    promptTokens: metadata?.promptTokenCount,
+    completionTokens: metadata?.candidatesTokenCount,
+  };
+}
+
 function safeParseJSON(s: string) {
   try {
     return JSON.parse(s);
@@ -1,5 +1,16 @@
-import { describe, expect, it } from "vitest";
-import { buildGroqMessages, fromOpenAIToolCalls, toOpenAITools } from "../index";
+import { describe, expect, it, vi } from "vitest";
+import { buildGroqMessages, createGroqProvider, fromOpenAIToolCalls, toOpenAITools } from "../index";
+
+const create = vi.fn();
+vi.mock("groq-sdk", () => ({
+  default: class {
+    chat = { completions: { create } };
+  },
+}));
+
+async function* chunks(values: unknown[]) {
+  for (const value of values) yield value;
+}
 
 describe("Groq provider tool mapping", () => {
   it("maps Bolt tool definitions to OpenAI-compatible function tools", () => {
@@ -58,4 +69,45 @@ describe("Groq provider tool mapping", () => {
       },
     ]);
   });
+
+  it("pairs tool turns with an assistant tool_calls turn and falls back to user turns without call and tool ids", () => {
+    expect(buildGroqMessages([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello" },
+      { role: "tool", toolId: "local.kb.lookup", content: "{}" },
+      { role: "tool", toolCallId: "call_2", toolId: "local.kb.search", content: "ok" },
+      { role: "tool", toolCallId: "call_3", content: "no tool id" },
+    ])).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_2", type: "function", function: { name: "local.kb.search", arguments: "{}" } }],
+      },
+      { role: "tool", tool_call_id: "call_2", content: "ok" },
+      { role: "user", content: "Tool result (local.kb.lookup):\n{}" },
+      { role: "user", content: "Tool result:\nno tool id" },
+    ]);
+  });
+});
+
+describe("Groq provider", () => {
+  it("streams token deltas and reports usage from the final x_groq chunk", async () => {
+    create.mockResolvedValueOnce(chunks([
+      { choices: [{ delta: { content: "Hel" } }] },
+      { choices: [{ delta: { content: "lo" } }], x_groq: { usage: { total_tokens: 7, prompt_tokens: 5, completion_tokens: 2 } } },
+    ]));
+    const provider = createGroqProvider({ apiKey: "test", model: "llama-test" });
+    const deltas: string[] = [];
+
+    await expect(provider.call({
+      kind: "text",
+      prompt: "Say hi",
+      onToken: (delta) => deltas.push(delta),
+    })).resolves.toEqual({ output: "Hello", tokens: 7, promptTokens: 5, completionTokens: 2 });
+    expect(deltas).toEqual(["Hel", "lo"]);
+  });
 });
@@ -1,6 +1,7 @@
 import type {
   ModelProvider,
   ProviderCallArgs,
+  ProviderMessage,
   ProviderResult,
   ProviderToolCall,
   ProviderToolDefinition,
@@ -27,8 +28,9 @@ export function createGroqProvider(opts?: {
         args.prompt ??
         (typeof args.input === "string" ? args.input : JSON.stringify(args.input ?? ""));
 
-      const messages = buildGroqMessages(prompt, args.toolResults);
+      const messages = buildGroqMessages(args.messages?.length ? args.messages : prompt, args.toolResults);
       const tools = toOpenAITools(args.tools);
+      const requestOptions = args.signal ? { signal: args.signal } : undefined;
 
       // Streaming path
       if (args.onToken && args.kind === "text") {
@@ -37,10 +39,14 @@ export function createGroqProvider(opts?: {
           temperature,
           stream: true,
           messages
-        });
+        }, requestOptions);
 
         let full = "";
+        let usage: unknown;
         for await (const chunk of stream as any) {
+          args.signal?.throwIfAborted();
+          // Groq reports stream usage on the final chunk under `x_groq`.
+          if (chunk?.x_groq?.usage ?? chunk?.usage) usage = chunk.x_groq?.usage ?? chunk.usage;
           const delta: string | undefined =
             chunk?.choices?.[0]?.delta?.content ??
             chunk?.choices?.[0]?.message?.content ??
@@ -50,7 +56,7 @@ export function createGroqProvider(opts?: {
             args.onToken(delta);
           }
         }
-        return { output: full };
+        return { output: full, ...fromGroqUsage(usage) };
       }
 
       // Non-stream / JSON path
@@ -60,17 +66,17 @@ export function createGroqProvider(opts?: {
         messages,
         ...(tools?.length ? { tools, tool_choice: "auto" } : {}),
         ...(args.kind === "json" ? { response_format: { type: "json_object" } } : {})
-      });
+      }, requestOptions);
 
       const message = resp.choices?.[0]?.message as any;
       const toolCalls = fromOpenAIToolCalls(message?.tool_calls);
       if (toolCalls.length) {
-        return { toolCalls, tokens: resp.usage?.total_tokens };
+        return { toolCalls, ...fromGroqUsage(resp.usage) };
       }
 
       const content = message?.content ?? "";
       const output = args.kind === "json" ? safeParseJSON(content) : content;
-      return { output, tokens: resp.usage?.total_tokens };
+      return { output, ...fromGroqUsage(resp.usage) };
     }
   };
 }
@@ -104,8 +110,52 @@ export function fromOpenAIToolCalls(toolCalls: unknown): ProviderToolCall[] {
     .filter((toolCall): toolCall is ProviderToolCall => Boolean(toolCall));
 }
 
-export function buildGroqMessages(prompt: string, toolResults?: ProviderToolResult[]) {
-  const messages: Array<{ role: "user"; content: string }> = [{ role: "user", content: prompt }];
+type GroqMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: GroqToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+type GroqToolCall = { id: string; type: "function"; function: { name: string; arguments: string } };
+
+/**
+ * Native Groq turns. Groq only accepts a tool turn that answers an assistant `tool_calls` turn, so each
+ * run of tool turns with a call id and tool id is preceded by one; other tool turns become user turns.
+ */
+export function toGroqMessages(messages: ProviderMessage[]): GroqMessage[] {
+  const out: GroqMessage[] = [];
+  for (let i = 0; i < messages.length; i += 1) {
+    const message = messages[i];
+    if (message.role !== "tool") {
+      out.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const run: ProviderMessage[] = [];
+    while (i < messages.length && messages[i].role === "tool") run.push(messages[i++]);
+    i -= 1;
+    const answered = run.filter((m) => m.toolCallId && m.toolId);
+    if (answered.length) {
+      out.push({
+        role: "assistant",
+        content: null,
+        tool_calls: answered.map((m) => ({
+          id: m.toolCallId!,
+          type: "function",
+          function: { name: m.toolId!, arguments: "{}" },
+        })),
+      });
+      for (const m of answered) out.push({ role: "tool", tool_call_id: m.toolCallId!, content: m.content });
+    }
+    for (const m of run) {
+      if (m.toolCallId && m.toolId) continue;
+      out.push({ role: "user", content: `Tool result${m.toolId ? ` (${m.toolId})` : ""}:\n${m.content}` });
+    }
+  }
+  return out;
+}
+
+export function buildGroqMessages(prompt: string | ProviderMessage[], toolResults?: ProviderToolResult[]) {
+  const messages: GroqMessage[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : toGroqMessages(prompt);
   if (toolResults?.length) {
     messages.push({
       role: "user",
@@ -115,6 +165,14 @@ export function buildGroqMessages(prompt: string, toolResults?: ProviderToolResu
   return messages;
 }
 
+function fromGroqUsage(usage: any): Pick<ProviderResult, "tokens" | "promptTokens" | "completionTokens"> {
+  return {
+    tokens: usage?.total_tokens,
+    promptTokens: usage?.prompt_tokens,
+    completionTokens: usage?.completion_tokens,
+  };
+}
+
 function safeParseJSON(s: string) {
   try { return JSON.parse(s); } catch {
     const m = s.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
@@ -3,6 +3,7 @@ import {
   buildOpenAIMessages,
   createOpenAIProvider,
   fromOpenAIToolCalls,
+  toOpenAIMessages,
   toOpenAITools,
 } from "../index";
 
@@ -90,19 +91,40 @@ describe("OpenAI provider tool mapping", () => {
       },
     ]);
   });
+
+  it("precedes conversation tool turns with the assistant tool_calls turn they answer", () => {
+    expect(toOpenAIMessages([
+      { role: "user", content: "Hi" },
+      { role: "tool", toolCallId: "call_1", toolId: "local.kb.lookup", content: "{}" },
+      { role: "tool", toolId: "local.kb.search", content: "none" },
+      { role: "assistant", content: "Done" },
+    ])).toEqual([
+      { role: "user", content: "Hi" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "local.kb.lookup", arguments: "{}" } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "{}" },
+      { role: "user", content: "Tool result (local.kb.search):\nnone" },
+      { role: "assistant", content: "Done" },
+    ]);
+  });
 });
 
 describe("OpenAI provider", () => {
   it("returns text from chat completions", async () => {
     const client = createClient({
       choices: [{ message: { content: "Hello" } }],
-      usage: { total_tokens: 12 },
+      usage: { total_tokens: 12, prompt_tokens: 9, completion_tokens: 3 },
     });
     const provider = createOpenAIProvider({ client, apiKey: "test", model: "gpt-test" });
 
     await expect(provider.call({ kind: "text", prompt: "Say hi" })).resolves.toEqual({
       output: "Hello",
       tokens: 12,
+      promptTokens: 9,
+      completionTokens: 3,
     });
     expect(client.chat.completions.create).toHaveBeenCalledWith({
       model: "gpt-test",
@@ -178,10 +200,66 @@ describe("OpenAI provider", () => {
     });
   });
 
-  it("streams token deltas and returns the streamed text", async () => {
+  it("sends conversation messages instead of the flattened prompt when provided", async () => {
+    const client = createClient({
+      choices: [{ message: { content: "Sure" } }],
+      usage: { total_tokens: 20 },
+    });
+    const provider = createOpenAIProvider({ client, apiKey: "test", model: "gpt-test" });
+
+    await provider.call({
+      kind: "text",
+      prompt: "Be brief.\n\nAnd now?",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+        { role: "user", content: "And now?" },
+      ],
+    });
+    expect(client.chat.completions.create).toHaveBeenCalledWith({
+      model: "gpt-test",
+      temperature: 0.2,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+        { role: "user", content: "And now?" },
+      ],
+    });
+  });
+
+  it("maps image parts to image_url content and advertises vision", async () => {
+    const client = createClient({ choices: [{ message: { content: "A cat" } }] });
+    const provider = createOpenAIProvider({ client, apiKey: "test", model: "gpt-4o" });
+
+    await provider.call({
+      kind: "text",
+      prompt: "What is this?",
+      images: [
+        { type: "image", url: "https://img.test/cat.png", detail: "low" },
+        { type: "image", data: "aGk=", mimeType: "image/jpeg" },
+      ],
+    });
+
+    expect(provider.supports).toContain("vision");
+    expect(client.chat.completions.create.mock.calls[0][0].messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image_url", image_url: { url: "https://img.test/cat.png", detail: "low" } },
+          { type: "image_url", image_url: { url: "data:image/jpeg;base64,aGk=" } },
+        ],
+      },
+    ]);
+  });
+
+  it("streams token deltas and returns the streamed text with the final usage chunk", async () => {
     const stream = chunks([
       { choices: [{ delta: { content: "Hel" } }] },
       { choices: [{ delta: { content: "lo" } }] },
+      { choices: [], usage: { total_tokens: 7, prompt_tokens: 5, completion_tokens: 2 } },
     ]);
     const create = vi.fn().mockResolvedValue(stream);
     const client = { chat: { completions: { create } } };
@@ -192,13 +270,90 @@ describe("OpenAI provider", () => {
       kind: "text",
       prompt: "Say hi",
       onToken: (delta) => deltas.push(delta),
-    })).resolves.toEqual({ output: "Hello" });
+    })).resolves.toEqual({ output: "Hello", tokens: 7, promptTokens: 5, completionTokens: 2 });
     expect(deltas).toEqual(["Hel", "lo"]);
     expect(create).toHaveBeenCalledWith({
       model: "gpt-test",
       temperature: 0.2,
       stream: true,
+      stream_options: { include_usage: true },
       messages: [{ role: "user", content: "Say hi" }],
     });
   });
+
+  it("passes the abort signal to the client and stops reading the stream once aborted", async () => {
+    const controller = new AbortController();
+    const stream = chunks([
+      { choices: [{ delta: { content: "Hel" } }] },
+      { choices: [{ delta: { content: "lo" } }] },
+    ]);
+    const create = vi.fn().mockResolvedValue(stream);
+    const client = { chat: { completions: { create } } };
+    const provider = createOpenAIProvider({ client, apiKey: "test", model: "gpt-test" });
+    const deltas: string[] = [];
+
+    await expect(provider.call({
+      kind: "text",
+      prompt: "Say hi",
+      signal: controller.signal,
+      onToken: (delta) => {
+        deltas.push(delta);
+        controller.abort();
+      },
+    })).rejects.toThrow();
+    expect(deltas).toEqual(["Hel"]);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ stream: true }), { signal: controller.signal });
+  });
+
+  it("returns embeddings in input order and normalized images", async () => {
+    const embeddings = vi.fn().mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0.3, 0.4] },
+        { index: 0, embedding: [0.1, 0.2] },
+      ],
+      usage: { prompt_tokens: 4, total_tokens: 4 },
+    });
+    const images = vi.fn().mockResolvedValue({
+      data: [{ url: "https://img/1.png", revised_prompt: "a calm cat" }, { b64_json: "aGk=" }],
+    });
+    const client = { ...createClient({}), embeddings: { create: embeddings }, images: { generate: images } };
+    const provider = createOpenAIProvider({
+      client,
+      apiKey: "test",
+      model: "gpt-test",
+      embeddingModel: "emb-test",
+      imageModel: "dall-e-3",
+    });
+
+    expect(provider.supports).toEqual(["text", "json", "embedding", "image"]);
+    await expect(provider.call({ kind: "embedding", texts: ["a", "b"] })).resolves.toEqual({
+      output: [[0.1, 0.2], [0.3, 0.4]],
+      tokens: 4,
+    });
+    expect(embeddings.mock.calls[0][0]).toEqual({ model: "emb-test", input: ["a", "b"] });
+    await expect(provider.call({ kind: "image", prompt: "a cat", image: { size: "1024x1024", count: 2 } })).resolves.toEqual({
+      output: [
+        { url: "https://img/1.png", revisedPrompt: "a calm cat" },
+        { b64: "aGk=", mimeType: "image/png" },
+      ],
+    });
+    expect(images.mock.calls[0][0]).toEqual({ model: "dall-e-3", prompt: "a cat", n: 2, size: "1024x1024" });
+  });
+
+  it("derives capabilities from the model name", async () => {
+    const embeddings = vi.fn().mockResolvedValue({ data: [{ index: 0, embedding: [0.1] }], usage: { total_tokens: 2 } });
+    const client = { ...createClient({}), embeddings: { create: embeddings } };
+    const embedder = createOpenAIProvider({ client, apiKey: "test", model: "text-embedding-3-large" });
+
+    expect(embedder.supports).toEqual(["embedding"]);
+    expect(createOpenAIProvider({ client, apiKey: "test", model: "gpt-image-1" }).supports).toEqual(["image"]);
+    expect(createOpenAIProvider({ client, apiKey: "test", model: "gpt-3.5-turbo" }).supports).toEqual(["text", "json"]);
+    expect(createOpenAIProvider({ client, apiKey: "test", model: "gpt-4o-mini" }).supports).toEqual([
+      "text",
+      "json",
+      "vision",
+    ]);
+    await embedder.call({ kind: "embedding", texts: ["a"] });
+    expect(embeddings.mock.calls[0][0]).toEqual({ model: "text-embedding-3-large", input: ["a"] });
+  });
 });
@@ -1,6 +1,11 @@
+import { imagePartUrl } from "@bolt-ai/core";
 import type {
+  Capability,
+  GeneratedImage,
+  ImagePart,
   ModelProvider,
   ProviderCallArgs,
+  ProviderMessage,
   ProviderResult,
   ProviderToolCall,
   ProviderToolDefinition,
@@ -13,15 +18,28 @@ declare const process: { env: Record<string, string | undefined> };
 type OpenAIClient = {
   chat: {
     completions: {
-      create(args: Record<string, unknown>): Promise<unknown>;
+      create(args: Record<string, unknown>, options?: { signal?: AbortSignal }): Promise<unknown>;
     };
   };
+  embeddings?: {
+    create(args: Record<string, unknown>, options?: { signal?: AbortSignal }): Promise<unknown>;
+  };
+  images?: {
+    generate(args: Record<string, unknown>, options?: { signal?: AbortSignal }): Promise<unknown>;
+  };
 };
 
 export interface OpenAIProviderOptions {
   apiKey?: string;
   model?: string;
   temperature?: number;
+  /**
+   * Model for `kind: "embedding"` calls (default: OPENAI_EMBEDDING_MODEL or text-embedding-3-small).
+   * Chat providers only declare `embedding` when this (or the env var) is set.
+   */
+  embeddingModel?: string;
+  /** Model for `kind: "image"` calls (default: OPENAI_IMAGE_MODEL or dall-e-3). Chat providers only declare `image` when set. */
+  imageModel?: string;
   client?: OpenAIClient;
 }
 
@@ -33,41 +51,77 @@ export function createOpenAIProvider(opts: OpenAIProviderOptions | string = {}):
   if (!apiKey && !options.client) throw new Error("OPENAI_API_KEY is required");
   const model = options.model ?? process.env.OPENAI_MODEL ?? "gpt-4o-mini";
   const temperature = options.temperature ?? 0.2;
+  const supports = openAICapabilities(model);
+  const embeddingModelSetting = options.embeddingModel ?? process.env.OPENAI_EMBEDDING_MODEL;
+  const imageModelSetting = options.imageModel ?? process.env.OPENAI_IMAGE_MODEL;
+  if (embeddingModelSetting && !supports.includes("embedding")) supports.push("embedding");
+  if (imageModelSetting && !supports.includes("image")) supports.push("image");
+  const embeddingModel = supports[0] === "embedding" ? model : embeddingModelSetting ?? "text-embedding-3-small";
+  const imageModel = supports[0] === "image" ? model : imageModelSetting ?? "dall-e-3";
   const client: OpenAIClient = options.client ?? (new OpenAI({ apiKey }) as unknown as OpenAIClient);
 
   return {
     id: `openai:${model}`,
-    supports: ["text", "json"],
+    supports,
     async call(args: ProviderCallArgs): Promise<ProviderResult> {
+      if (args.kind === "embedding") {
+        if (!client.embeddings) throw new Error("OpenAI client does not support embeddings");
+        const resp = (await client.embeddings.create(
+          { model: embeddingModel, input: embeddingInputs(args) },
+          args.signal ? { signal: args.signal } : undefined
+        )) as any;
+        return { output: fromOpenAIEmbeddings(resp?.data), tokens: resp?.usage?.total_tokens ?? resp?.usage?.prompt_tokens };
+      }
+      if (args.kind === "image") {
+        if (!client.images) throw new Error("OpenAI client does not support image generation");
+        const resp = (await client.images.generate(
+          {
+            model: imageModel,
+            prompt: args.prompt ?? "",
+            n: args.image?.count ?? 1,
+            ...(args.image?.size ? { size: args.image.size } : {}),
+          },
+          args.signal ? { signal: args.signal } : undefined
+        )) as any;
+        return { output: fromOpenAIImages(resp?.data) };
+      }
+
       const prompt =
         args.prompt ??
         (typeof args.input === "string" ? args.input : JSON.stringify(args.input ?? ""));
-      const messages = buildOpenAIMessages(prompt, args.toolResults);
+      const conversation = args.messages?.length
+        ? args.messages
+        : args.images?.length
+          ? [{ role: "user" as const, content: prompt, images: args.images }]
+          : prompt;
+      const messages = buildOpenAIMessages(conversation, args.toolResults);
       const tools = toOpenAITools(args.tools);
+      const stream = Boolean(args.onToken) && args.kind === "text";
       const request = buildOpenAIRequest({
         model,
         temperature,
         messages,
         tools,
         kind: args.kind,
+        stream,
       });
 
-      if (args.onToken && args.kind === "text") {
-        const stream = await client.chat.completions.create({ ...request, stream: true });
-        return collectOpenAIStream(stream, args.onToken);
+      if (stream && args.onToken) {
+        const chunks = await createCompletion(client, request, args.signal);
+        return collectOpenAIStream(chunks, args.onToken, args.signal);
       }
 
-      const resp = await client.chat.completions.create(request);
+      const resp = await createCompletion(client, request, args.signal);
       const raw = resp as any;
       const message = raw.choices?.[0]?.message;
       const toolCalls = fromOpenAIToolCalls(message?.tool_calls);
       if (toolCalls.length) {
-        return { toolCalls, tokens: raw.usage?.total_tokens };
+        return { toolCalls, ...fromOpenAIUsage(raw.usage) };
       }
 
       const content = message?.content ?? "";
       const output = args.kind === "json" ? safeParseJSON(content) : content;
-      return { output, tokens: raw.usage?.total_tokens };
+      return { output, ...fromOpenAIUsage(raw.usage) };
     },
   };
 }
@@ -101,8 +155,93 @@ export function fromOpenAIToolCalls(toolCalls: unknown): ProviderToolCall[] {
     .filter((toolCall): toolCall is ProviderToolCall => Boolean(toolCall));
 }
 
-export function buildOpenAIMessages(prompt: string, toolResults?: ProviderToolResult[]) {
-  const messages: any[] = [{ role: "user", content: prompt }];
+/** Order vectors by `index` so they line up with the input texts. */
+/**
+ * Capabilities of an OpenAI model, from its name: embedding and image models only do that,
+ * chat models do text and json, plus vision from gpt-4o / gpt-4.1 / gpt-5 and the o-series.
+ */
+export function openAICapabilities(model: string): Capability[] {
+  const name = model.toLowerCase().replace(/^.*\//, "");
+  if (name.includes("embedding")) return ["embedding"];
+  if (/^(dall-e|gpt-image)/.test(name)) return ["image"];
+  const vision = /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-4-turbo|gpt-4-vision|gpt-5|o1(?!-mini|-preview)|o3(?!-mini)|o4)/.test(name);
+  return vision ? ["text", "json", "vision"] : ["text", "json"];
+}
+
+export function fromOpenAIEmbeddings(data: unknown): number[][] {
+  if (!Array.isArray(data)) return [];
+  return [...data]
+    .sort((a: any, b: any) => (a?.index ?? 0) - (b?.index ?? 0))
+    .map((item: any) => (Array.isArray(item?.embedding) ? item.embedding : []));
+}
+
+export function fromOpenAIImages(data: unknown): GeneratedImage[] {
+  if (!Array.isArray(data)) return [];
+  return data.map((item: any) => ({
+    url: item?.url ?? undefined,
+    b64: item?.b64_json ?? undefined,
+    mimeType: item?.b64_json ? "image/png" : undefined,
+    revisedPrompt: item?.revised_prompt ?? undefined,
+  }));
+}
+
+function embeddingInputs(args: ProviderCallArgs): string[] {
+  if (args.texts?.length) return args.texts;
+  return [args.prompt ?? (typeof args.input === "string" ? args.input : JSON.stringify(args.input ?? ""))];
+}
+
+/**
+ * OpenAI only accepts `tool` turns right after the assistant turn whose `tool_calls` they answer, so each run of
+ * tool messages gets that assistant turn first. Tool messages without a call id and tool id become user turns.
+ */
+export function toOpenAIMessages(messages: ProviderMessage[]) {
+  const out: any[] = [];
+  for (let i = 0; i < messages.length; i += 1) {
+    const message = messages[i];
+    if (message.role !== "tool") {
+      if (message.images?.length) out.push({ role: message.role, content: toOpenAIContent(message.content, message.images) });
+      else out.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const run: ProviderMessage[] = [];
+    while (i < messages.length && messages[i].role === "tool") run.push(messages[i++]);
+    i -= 1;
+    const answered = run.filter((m) => m.toolCallId && m.toolId);
+    if (answered.length) {
+      out.push({
+        role: "assistant",
+        content: null,
+        tool_calls: answered.map((m) => ({
+          id: m.toolCallId,
+          type: "function",
+          function: { name: m.toolId, arguments: "{}" },
+        })),
+      });
+      for (const m of answered) out.push({ role: "tool", tool_call_id: m.toolCallId, content: m.content });
+    }
+    for (const m of run) {
+      if (m.toolCallId && m.toolId) continue;
+      out.push({ role: "user", content: `Tool result${m.toolId ? ` (${m.toolId})` : ""}:\n${m.content}` });
+    }
+  }
+  return out;
+}
+
+/** Text plus `image_url` parts; base64 images are sent as data URLs. */
+export function toOpenAIContent(text: string, images: ImagePart[]) {
+  const parts: any[] = text ? [{ type: "text", text }] : [];
+  for (const image of images) {
+    parts.push({
+      type: "image_url",
+      image_url: { url: imagePartUrl(image), ...(image.detail ? { detail: image.detail } : {}) },
+    });
+  }
+  return parts;
+}
+
+export function buildOpenAIMessages(prompt: string | ProviderMessage[], toolResults?: ProviderToolResult[]) {
+  const messages: any[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : toOpenAIMessages(prompt);
   if (!toolResults?.length) return messages;
 
   messages.push({
@@ -135,24 +274,35 @@ function buildOpenAIRequest(args: {
   messages: unknown[];
   tools?: ReturnType<typeof toOpenAITools>;
   kind: ProviderCallArgs["kind"];
+  stream?: boolean;
 }) {
   return {
     model: args.model,
     temperature: args.temperature,
+    // Streams only report usage (in a final chunk) when asked to.
+    ...(args.stream ? { stream: true, stream_options: { include_usage: true } } : {}),
     messages: args.messages,
     ...(args.tools?.length ? { tools: args.tools, tool_choice: "auto" } : {}),
     ...(args.kind === "json" ? { response_format: { type: "json_object" } } : {}),
   };
 }
 
+function createCompletion(client: OpenAIClient, request: Record<string, unknown>, signal?: AbortSignal) {
+  return signal ? client.chat.completions.create(request, { signal }) : client.chat.completions.create(request);
+}
+
 async function collectOpenAIStream(
   stream: unknown,
-  onToken: (delta: string) => void
+  onToken: (delta: string) => void,
+  signal?: AbortSignal
 ): Promise<ProviderResult> {
   let full = "";
   const toolCallByIndex = new Map<number, any>();
+  let usage: unknown;
 
   for await (const chunk of stream as AsyncIterable<any>) {
+    signal?.throwIfAborted();
+    if (chunk?.usage) usage = chunk.usage;
     const delta = chunk?.choices?.[0]?.delta ?? {};
     const content = typeof delta.content === "string" ? delta.content : "";
     if (content) {
@@ -175,8 +325,16 @@ async function collectOpenAIStream(
   }
 
   const toolCalls = fromOpenAIToolCalls([...toolCallByIndex.values()]);
-  if (toolCalls.length) return { toolCalls };
-  return { output: full };
+  if (toolCalls.length) return { toolCalls, ...fromOpenAIUsage(usage) };
+  return { output: full, ...fromOpenAIUsage(usage) };
+}
+
+function fromOpenAIUsage(usage: any): Pick<ProviderResult, "tokens" | "promptTokens" | "completionTokens"> {
+  return {
+    tokens: usage?.total_tokens,
+    promptTokens: usage?.prompt_tokens,
+    completionTokens: usage?.completion_tokens,
+  };
 }
 
 function safeParseJSON(s: string) {